@@ -60,26 +60,8 @@ function isValidEmailDomain(domain) {
 }
 
 // Allowlist - legitimate privacy services that should never be blocked
-const ALLOWLIST = new Set([
-  'simplelogin.com',
-  'simplelogin.co',
-  'aleeas.com',
-  'anonaddy.me',
-  'anonaddy.com',
-  'addy.io',
-  'duckduckgo.com',
-  'duck.com',
-  'privaterelay.appleid.com',
-  'icloud.com',
-  'me.com',
-  'protonmail.com',
-  'proton.me',
-  'pm.me',
-  'tutanota.com',
-  'tuta.io',
-  'fastmail.com',
-  'fastmail.fm',
-]);
+// Shared with the library, which enforces it at runtime
+const ALLOWLIST = new Set(require('../src/data/default-allowlist.json').domains);
 
 // API endpoints for various temp mail services
 const TEMP_MAIL_APIS = [
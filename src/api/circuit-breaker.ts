@@ -0,0 +1,76 @@
+/**
+ * API Circuit Breaker
+ *
+ * After `api.circuitBreaker.threshold` consecutive server failures (5xx, timeouts, network
+ * errors) the circuit opens and API calls fail fast with CircuitOpenError instead of adding
+ * load to an API that is already struggling. Once `resetTimeout` has passed, a single trial
+ * request is let through: success closes the circuit, failure opens it again.
+ */
+
+import { getApiConfig } from '../config';
+
+const DEFAULT_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000; // 30 seconds
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+let state: CircuitState = 'closed';
+let failures = 0;
+let openedAt = 0;
+let trialInFlight = false;
+
+function getSettings() {
+  const {
+    enabled = true,
+    threshold = DEFAULT_THRESHOLD,
+    resetTimeout = DEFAULT_RESET_TIMEOUT,
+  } = getApiConfig().circuitBreaker ?? {};
+  return { enabled, threshold, resetTimeout };
+}
+
+/**
+ * Check whether a request may be sent; claims the trial slot when half-open
+ */
+export function allowRequest(now = Date.now()): boolean {
+  const { enabled, resetTimeout } = getSettings();
+  if (!enabled || state === 'closed') return true;
+
+  if (state === 'open' && now - openedAt >= resetTimeout) {
+    state = 'half_open';
+  }
+  if (state === 'half_open' && !trialInFlight) {
+    trialInFlight = true;
+    return true;
+  }
+  return false;
+}
+
+export function recordSuccess(): void {
+  state = 'closed';
+  failures = 0;
+  trialInFlight = false;
+}
+
+export function recordFailure(now = Date.now()): void {
+  const { enabled, threshold } = getSettings();
+  if (!enabled) return;
+
+  failures++;
+  trialInFlight = false;
+  if (state === 'half_open' || failures >= threshold) {
+    state = 'open';
+    openedAt = now;
+  }
+}
+
+/**
+ * Time (ms since epoch) the next trial request is allowed, or null when the circuit is closed
+ */
+export function getCircuitRetryAt(): number | null {
+  if (state === 'closed') return null;
+  return openedAt + getSettings().resetTimeout;
+}
+
+export function getCircuitState(): CircuitState {
+  return state;
+}
@@ -1,7 +1,14 @@
 import type { ApiResponse } from './types';
-import { getApiUrl, getApiKey } from '../config';
+import { getApiUrl, getApiKey, getApiConfig } from '../config';
+import { incrementMetric } from '../metrics';
+import { httpRequest } from '../http';
+import { getRateLimiter, getRateLimitReset, parseRetryAfter } from './rate-limit';
+import { allowRequest, getCircuitRetryAt, recordFailure, recordSuccess } from './circuit-breaker';
 
-const REQUEST_TIMEOUT = 30000; // 30 seconds
+const DEFAULT_RETRIES = 3;
+const DEFAULT_MIN_DELAY = 500;
+const DEFAULT_MAX_DELAY = 30000; // 30 seconds
+const DEFAULT_FACTOR = 2;
 
 export class ApiKeyNotConfiguredError extends Error {
   constructor() {
@@ -24,83 +31,172 @@ export class SniffmailError extends Error {
   }
 }
 
-export async function checkMailbox(email: string): Promise<ApiResponse> {
-  const apiUrl = getApiUrl();
-  const apiKey = getApiKey();
+/**
+ * The plan's verification quota is used up (HTTP 403)
+ */
+export class QuotaExceededError extends SniffmailError {
+  constructor(responseData?: unknown) {
+    super('Usage limit exceeded. Upgrade your plan at https://sniffmail.io', 403, responseData);
+    this.name = 'QuotaExceededError';
+  }
+}
 
-  if (!apiKey) {
-    throw new ApiKeyNotConfiguredError();
+/**
+ * The circuit breaker is open after repeated API failures; calls fail fast until it resets
+ */
+export class CircuitOpenError extends SniffmailError {
+  /** Time (ms since epoch) the next trial request is allowed */
+  public retryAt: number | null;
+
+  constructor(retryAt: number | null) {
+    super('Sniffmail API unavailable after repeated failures; not calling it for now');
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryable(statusCode: number | undefined): boolean {
+  // No status code means a timeout or network error
+  return statusCode === undefined || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Exponential backoff before retry number `attempt` (0-based), with optional full jitter
+ */
+function getBackoff(attempt: number): number {
+  const {
+    minDelay = DEFAULT_MIN_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+    factor = DEFAULT_FACTOR,
+    jitter = true,
+  } = getApiConfig().retry ?? {};
+  const delay = Math.min(maxDelay, minDelay * factor ** attempt);
+  return jitter ? Math.random() * delay : delay;
+}
+
+async function toError(response: Response): Promise<SniffmailError> {
+  const data = await response.json().catch(() => null);
+
+  if (response.status === 401) {
+    return new SniffmailError(
+      'Invalid API key. Get your free API key at https://sniffmail.io',
+      401,
+      data
+    );
+  }
+
+  if (response.status === 403) {
+    return new QuotaExceededError(data);
   }
 
+  if (response.status === 429) {
+    return new SniffmailError('Rate limit exceeded. Please slow down your requests.', 429, data);
+  }
+
+  return new SniffmailError(`API returned ${response.status}`, response.status, data);
+}
+
+/**
+ * Send one verify request; network failures and timeouts become SniffmailErrors
+ */
+async function sendVerify(email: string, apiUrl: string, apiKey: string): Promise<Response> {
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    'Authorization': `Bearer ${apiKey}`,
+    Authorization: `Bearer ${apiKey}`,
     'x-api-key': apiKey,
   };
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
-
   try {
-    const response = await fetch(`${apiUrl}/verify`, {
+    incrementMetric('apiCalls');
+    return await httpRequest('verify', `${apiUrl}/verify`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ email }),
-      signal: controller.signal,
     });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        throw new SniffmailError('Request timed out');
+      }
+      throw new SniffmailError(`API error: ${error.message}`);
+    }
+    throw new SniffmailError('Unknown API error');
+  }
+}
 
-    clearTimeout(timeoutId);
+/**
+ * Verify a mailbox through the Sniffmail API
+ *
+ * Timeouts, network errors, 429s and 5xx responses are retried with exponential backoff
+ * (`api.retry`). Requests go through the shared rate limiter (`api.rateLimit`), which also
+ * honors `Retry-After` and `X-RateLimit-*` headers, and the circuit breaker
+ * (`api.circuitBreaker`).
+ *
+ * @throws CircuitOpenError while the circuit breaker is open
+ * @throws SniffmailError when the request fails and retries are exhausted
+ */
+export async function checkMailbox(email: string): Promise<ApiResponse> {
+  const apiUrl = getApiUrl();
+  const apiKey = getApiKey();
 
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
+  if (!apiKey) {
+    throw new ApiKeyNotConfiguredError();
+  }
 
-      if (response.status === 401) {
-        throw new SniffmailError(
-          'Invalid API key. Get your free API key at https://sniffmail.io',
-          401,
-          data
-        );
-      }
+  const { retries = DEFAULT_RETRIES, maxDelay = DEFAULT_MAX_DELAY } = getApiConfig().retry ?? {};
+  const limiter = getRateLimiter();
 
-      if (response.status === 403) {
-        throw new SniffmailError(
-          'Usage limit exceeded. Upgrade your plan at https://sniffmail.io',
-          403,
-          data
-        );
-      }
+  for (let attempt = 0; ; attempt++) {
+    if (!allowRequest()) {
+      throw new CircuitOpenError(getCircuitRetryAt());
+    }
+    await limiter.acquire();
 
-      if (response.status === 429) {
-        throw new SniffmailError(
-          'Rate limit exceeded. Please slow down your requests.',
-          429,
-          data
-        );
-      }
+    let error: SniffmailError;
+    let delay = getBackoff(attempt);
 
-      throw new SniffmailError(
-        `API returned ${response.status}`,
-        response.status,
-        data
-      );
-    }
+    try {
+      const response = await sendVerify(email, apiUrl, apiKey);
+      const now = Date.now();
+      const reset = getRateLimitReset(response.headers, now);
+      // No pause outlasts maxDelay, so a far-off reset can't stall every worker
+      if (reset !== null) limiter.pauseUntil(Math.min(reset, now + maxDelay));
 
-    return (await response.json()) as ApiResponse;
-  } catch (error) {
-    clearTimeout(timeoutId);
+      if (response.ok) {
+        recordSuccess();
+        return (await response.json()) as ApiResponse;
+      }
 
-    if (error instanceof ApiKeyNotConfiguredError || error instanceof SniffmailError) {
-      throw error;
-    }
+      // The API answered, so only server errors count against the circuit
+      if (response.status >= 500) recordFailure();
+      else recordSuccess();
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new SniffmailError('Request timed out');
+      error = await toError(response);
+      if (response.status === 429) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'), now);
+        const wait = retryAfter ?? (reset !== null ? reset - now : null);
+        if (wait !== null) {
+          // A wait beyond maxDelay ends retrying; otherwise every worker waits, not just this one
+          if (wait > maxDelay) throw error;
+          limiter.pauseUntil(now + wait);
+          delay = Math.max(delay, wait);
+        }
       }
-      throw new SniffmailError(`API error: ${error.message}`);
+    } catch (caught) {
+      if (!(caught instanceof SniffmailError) || caught.statusCode !== undefined) throw caught;
+      recordFailure();
+      error = caught;
     }
 
-    throw new SniffmailError('Unknown API error');
+    if (attempt >= retries || !isRetryable(error.statusCode)) {
+      throw error;
+    }
+    incrementMetric('apiRetries');
+    await sleep(delay);
   }
 }
 
@@ -108,15 +204,7 @@ export async function checkApiHealth(): Promise<boolean> {
   const apiUrl = getApiUrl();
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch(`${apiUrl}/health`, {
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
+    const response = await httpRequest('health', `${apiUrl}/health`);
     return response.status < 500;
   } catch {
     return false;
@@ -0,0 +1,123 @@
+/**
+ * Client-side Rate Limiting
+ *
+ * One token bucket shared by every API call in the process, so concurrent batch workers
+ * together stay under `api.rateLimit.requestsPerSecond`. The bucket can also be paused
+ * until a given time: a 429 `Retry-After` or an exhausted `X-RateLimit-Remaining` holds
+ * back every worker, not just the one that got the response.
+ */
+
+import { getApiConfig } from '../config';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  // Waiters take turns, so tokens are handed out in arrival order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly rate: number | undefined,
+    private readonly burst: number
+  ) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Wait until a request may be sent
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Hold back every request until the given time (ms since epoch)
+   */
+  pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+  }
+
+  getPausedUntil(): number {
+    return this.pausedUntil;
+  }
+
+  private refill(now: number): void {
+    if (!this.rate) return;
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.rate);
+    this.updatedAt = now;
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      if (!this.rate) return;
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.rate) * 1000);
+    }
+  }
+}
+
+let bucket: TokenBucket | null = null;
+let bucketKey = '';
+
+/**
+ * Get the process-wide bucket, rebuilt when the rate limit config changes
+ */
+export function getRateLimiter(): TokenBucket {
+  const { requestsPerSecond, burst } = getApiConfig().rateLimit ?? {};
+  const rate = requestsPerSecond && requestsPerSecond > 0 ? requestsPerSecond : undefined;
+  const size = Math.max(1, burst ?? rate ?? 1);
+  const key = `${rate ?? ''}|${size}`;
+
+  if (!bucket || key !== bucketKey) {
+    const pausedUntil = bucket?.getPausedUntil() ?? 0;
+    bucket = new TokenBucket(rate, size);
+    bucket.pauseUntil(pausedUntil);
+    bucketKey = key;
+  }
+  return bucket;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or an HTTP date) into a delay in ms
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * When the server reports no requests left in the window, get the time (ms since epoch)
+ * the window resets. `X-RateLimit-Reset` may be epoch seconds or seconds from now.
+ */
+export function getRateLimitReset(headers: Headers, now = Date.now()): number | null {
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (remaining === null || Number(remaining) > 0 || !reset) return null;
+
+  // Values this large are timestamps; anything smaller counts from now
+  return reset > 1e9 ? reset * 1000 : now + reset * 1000;
+}
@@ -2,18 +2,30 @@
  * Batch email validation
  */
 
-import { validateEmail } from './validator';
+import type { LimitFunction } from 'p-limit';
+import { validateEmail, validateAddress, checkDomain } from './validator';
+import type { DomainCheck, DomainChecker } from './validator';
+import { ValidationReport } from './report';
+import { prefetchFromCache } from './cache';
+import { getDomainTtl } from './config';
 import type {
   ValidationResult,
+  ValidationOptions,
   BatchValidationOptions,
   BatchValidationResult,
+  BatchProgress,
+  StreamValidationOptions,
 } from './types';
 
 const DEFAULT_CONCURRENCY = 5;
+const MAX_DOMAIN_CHECKS = 10000;
 
 /**
  * Validate multiple email addresses
  *
+ * Identical addresses are validated once, and domain-level checks (blocklists, MX lookup,
+ * DeBounce) run once per domain before the per-address checks fan out.
+ *
  * @param emails - Array of email addresses to validate
  * @param options - Validation options including concurrency control
  * @returns Batch validation results with summary
@@ -28,29 +40,270 @@ export async function validateEmails(
   emails: string[],
   options: BatchValidationOptions = {}
 ): Promise<BatchValidationResult> {
-  const { concurrency = DEFAULT_CONCURRENCY, ...validationOptions } = options;
+  const { concurrency = DEFAULT_CONCURRENCY, perDomainConcurrency, ...validationOptions } = options;
 
   // Use dynamic import for p-limit to avoid bundling issues
   const pLimit = (await import('p-limit')).default;
   const limit = pLimit(concurrency);
+  const domainLimits = new Map<string, LimitFunction>();
+  const domainChecks = createDomainCheckMemo(validationOptions);
+  const report = new ValidationReport();
+  const latencies = new Map<string, number>();
+
+  // The per-domain queue wraps the global one, so waiting on a busy domain holds no global slot
+  const schedule = (domain: string, task: () => Promise<ValidationResult>) => {
+    if (!perDomainConcurrency) return limit(task);
+    let domainLimit = domainLimits.get(domain);
+    if (!domainLimit) {
+      domainLimit = pLimit(perDomainConcurrency);
+      domainLimits.set(domain, domainLimit);
+    }
+    return domainLimit(() => limit(task));
+  };
+
+  // Deep results are cached per address: read them all up front in a few bulk calls
+  const releasePrefetch = validationOptions.deep ? await prefetchFromCache(emails) : () => {};
+
+  const unique = new Map<string, Promise<ValidationResult>>();
+  for (const email of emails) {
+    const key = email.toLowerCase().trim();
+    if (unique.has(key)) continue;
+
+    const domain = key.slice(key.lastIndexOf('@') + 1);
+    unique.set(
+      key,
+      schedule(domain, async () => {
+        const startedAt = performance.now();
+        const result = await validateAddress(email, validationOptions, domainChecks.check);
+        latencies.set(key, performance.now() - startedAt);
+        return result;
+      })
+    );
+  }
+
+  let results: ValidationResult[];
+  try {
+    results = await Promise.all(
+      emails.map(async (email) => ({ ...(await unique.get(email.toLowerCase().trim())!) }))
+    );
+  } finally {
+    releasePrefetch();
+  }
+
+  // Duplicates count towards the totals but reuse the first occurrence's latency
+  emails.forEach((email, i) => {
+    const key = email.toLowerCase().trim();
+    report.record(results[i]!, latencies.get(key));
+    latencies.delete(key);
+  });
+
+  const summary = {
+    ...calculateSummary(results),
+    duplicates: emails.length - unique.size,
+    domainLookupsSaved: domainChecks.saved(),
+  };
+
+  return { results, summary, report };
+}
 
-  const results = await Promise.all(
-    emails.map((email) => limit(() => validateEmail(email, validationOptions)))
-  );
+/**
+ * Share one domain check between all addresses on a domain
+ *
+ * Addresses arriving while a check runs share it. Settled checks are kept for the MX TTL
+ * (`cache.domainTtl.mx`), up to MAX_DOMAIN_CHECKS domains, so long-running jobs pick up DNS
+ * changes and don't grow without bound. Failed or degraded checks are dropped once they
+ * settle, so one transient failure doesn't stick to the domain.
+ */
+export function createDomainCheckMemo(options: ValidationOptions): {
+  check: DomainChecker;
+  saved: () => number;
+} {
+  const checks = new Map<string, { check: Promise<DomainCheck>; expires: number }>();
+  let saved = 0;
+
+  const forget = (domain: string, entry: { check: Promise<DomainCheck> }) => {
+    if (checks.get(domain) === entry) checks.delete(domain);
+  };
+
+  const check: DomainChecker = (domain, ipLiteral, lookupEmail) => {
+    const existing = checks.get(domain);
+    if (existing && Date.now() <= existing.expires) {
+      saved++;
+      return existing.check;
+    }
 
-  const summary = calculateSummary(results);
+    const pending = checkDomain(domain, ipLiteral, lookupEmail, options);
+    const entry = { check: pending, expires: Infinity };
+    checks.delete(domain);
+    checks.set(domain, entry);
+    // Maps iterate in insertion order, so the first key is the oldest check
+    if (checks.size > MAX_DOMAIN_CHECKS) {
+      checks.delete(checks.keys().next().value!);
+    }
+
+    pending.then(
+      (result) => {
+        if (result.error) forget(domain, entry);
+        else entry.expires = Date.now() + getDomainTtl('mx') * 1000;
+      },
+      () => forget(domain, entry)
+    );
+    return pending;
+  };
+
+  return { check, saved: () => saved };
+}
+
+/**
+ * Validate a stream of email addresses, yielding each result as it finishes
+ *
+ * At most `concurrency` addresses are read ahead of the consumer, so memory stays flat
+ * however long the input is. With `ordered: true`, results that finish early wait for
+ * the ones before them.
+ *
+ * @param emails - Any iterable or async iterable of addresses (e.g. lines of a file)
+ * @param options - Validation options plus ordering, cancellation and progress reporting
+ *
+ * @example
+ * const controller = new AbortController();
+ * for await (const result of validateEmailStream(readLines('list.txt'), {
+ *   signal: controller.signal,
+ *   onProgress: ({ processed }) => console.log(processed),
+ * })) {
+ *   await save(result);
+ * }
+ */
+export function validateEmailStream(
+  emails: AsyncIterable<string> | Iterable<string>,
+  options: StreamValidationOptions = {}
+): AsyncGenerator<ValidationResult, void, undefined> {
+  return streamResults(emails, options, validateEmail);
+}
+
+/**
+ * Streaming engine behind validateEmailStream, with a pluggable per-address validator
+ * (jobs use one that stops on quota errors instead of failing open)
+ */
+export async function* streamResults(
+  emails: AsyncIterable<string> | Iterable<string>,
+  options: StreamValidationOptions,
+  validate: (email: string, options: ValidationOptions) => Promise<ValidationResult>
+): AsyncGenerator<ValidationResult, void, undefined> {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    ordered = false,
+    signal,
+    onProgress,
+    report,
+    ...validationOptions
+  } = options;
+
+  const iterator =
+    Symbol.asyncIterator in emails
+      ? emails[Symbol.asyncIterator]()
+      : (emails as Iterable<string>)[Symbol.iterator]();
+  const pending = new Map<number, Promise<{ index: number; result: ValidationResult }>>();
+  // At most one read in flight, raced against the validations so slow input never holds
+  // back finished results or an abort
+  let reading: Promise<{ next: IteratorResult<string> }> | null = null;
+  const finished = new Map<number, ValidationResult>(); // ordered mode: waiting for earlier results
+  const progress: BatchProgress = { processed: 0, valid: 0, invalid: 0 };
+  let nextIndex = 0;
+  let nextToYield = 0;
+  let exhausted = false;
+
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+
+      // Read ahead only while there's room in the window
+      if (!exhausted && !reading && pending.size + finished.size < concurrency) {
+        reading = Promise.resolve(iterator.next()).then((next) => ({ next }));
+        // A read abandoned after an abort must not surface as an unhandled rejection
+        reading.catch(() => undefined);
+      }
+
+      if (!reading && pending.size === 0) return;
+
+      const settled = await raceAbort(
+        Promise.race<
+          { next: IteratorResult<string> } | { index: number; result: ValidationResult }
+        >(reading ? [reading, ...pending.values()] : pending.values()),
+        signal
+      );
+
+      if ('next' in settled) {
+        reading = null;
+        if (settled.next.done) {
+          exhausted = true;
+          continue;
+        }
+        const index = nextIndex++;
+        const startedAt = performance.now();
+        const task = validate(settled.next.value, validationOptions).then((result) => {
+          report?.record(result, performance.now() - startedAt);
+          return { index, result };
+        });
+        // Results abandoned after an abort must not surface as unhandled rejections
+        task.catch(() => undefined);
+        pending.set(index, task);
+        continue;
+      }
+
+      const { index, result } = settled;
+      pending.delete(index);
+
+      progress.processed++;
+      if (result.valid) progress.valid++;
+      else progress.invalid++;
+      onProgress?.({ ...progress });
+
+      if (!ordered) {
+        yield result;
+        continue;
+      }
+
+      finished.set(index, result);
+      while (finished.has(nextToYield)) {
+        const head = finished.get(nextToYield)!;
+        finished.delete(nextToYield);
+        nextToYield++;
+        yield head;
+      }
+    }
+  } finally {
+    if (reading) {
+      // An async iterator only returns once the read in flight settles, which stalled input
+      // may never do
+      Promise.resolve(iterator.return?.()).catch(() => undefined);
+    } else {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
 
-  return { results, summary };
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 }
 
-function calculateSummary(results: ValidationResult[]): BatchValidationResult['summary'] {
+function calculateSummary(
+  results: ValidationResult[]
+): Omit<BatchValidationResult['summary'], 'duplicates' | 'domainLookupsSaved'> {
   return {
     total: results.length,
     valid: results.filter((r) => r.valid).length,
     invalid: results.filter((r) => !r.valid && r.reason !== 'disposable').length,
     disposable: results.filter((r) => r.disposable).length,
-    unknown: results.filter(
-      (r) => r.smtp?.is_reachable === 'unknown'
-    ).length,
+    unknown: results.filter((r) => r.smtp?.is_reachable === 'unknown').length,
   };
 }
@@ -0,0 +1,203 @@
+/**
+ * Cache Administration
+ *
+ * Invalidate and purge cached verdicts (e.g. after a customer fixes their mail server), and
+ * move the cache between stores as a portable JSON snapshot. Purges by domain or status and
+ * exports iterate over the store, so they need a store with `scan()`; MemoryCache,
+ * RedisCache, FileCache and TieredCache all have one.
+ */
+
+import { domainToASCII } from 'url';
+import type { CacheScanEntry, CacheStore, DomainTtlConfig, ReachableStatus } from '../types';
+import { getDomainTtl } from '../config';
+import { normalizeEmail } from '../normalize';
+import { CACHE_PREFIX, getCacheKey, getCacheStore, getDomainCacheKey } from './index';
+import { unwrapResult } from './envelope';
+import { setMany } from './tiered';
+
+const SNAPSHOT_VERSION = 1;
+
+const DOMAIN_FACTS: readonly (keyof DomainTtlConfig)[] = [
+  'mx',
+  'catchAll',
+  'disposable',
+  'debounce',
+];
+
+export interface CacheSnapshot {
+  version: number;
+  exportedAt: string;
+  /** Keys without the `sniffmail:` prefix */
+  entries: CacheScanEntry[];
+}
+
+export interface ImportCacheOptions {
+  /**
+   * Lifetime for entries exported without one; by default the configured TTL for their
+   * status or domain fact
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * The configured store can't do what an admin operation needs
+ */
+export class UnsupportedCacheOperationError extends Error {
+  constructor(method: string) {
+    super(`The configured cache store does not implement ${method}()`);
+    this.name = 'UnsupportedCacheOperationError';
+  }
+}
+
+function toAsciiDomain(domain: string): string {
+  const lower = domain.toLowerCase().trim();
+  return domainToASCII(lower) || lower;
+}
+
+function requireScan(store: CacheStore): (prefix: string) => AsyncIterable<CacheScanEntry> {
+  if (!store.scan) throw new UnsupportedCacheOperationError('scan');
+  return store.scan.bind(store);
+}
+
+function requireDelete(store: CacheStore): (key: string) => Promise<void> {
+  if (!store.delete) throw new UnsupportedCacheOperationError('delete');
+  return store.delete.bind(store);
+}
+
+/**
+ * Delete the entries matching `predicate`
+ *
+ * @returns Number of entries deleted
+ */
+async function purge(predicate: (entry: CacheScanEntry) => boolean): Promise<number> {
+  const store = getCacheStore();
+  const scan = requireScan(store);
+  const remove = requireDelete(store);
+
+  // Collect first: deleting while a Redis SCAN is running may make it skip keys
+  const keys: string[] = [];
+  for await (const entry of scan(CACHE_PREFIX)) {
+    if (predicate(entry)) keys.push(entry.key);
+  }
+  await Promise.all(keys.map((key) => remove(key)));
+  return keys.length;
+}
+
+/**
+ * Forget the cached verdict of one address (under every key it may be stored under)
+ */
+export async function invalidateEmail(email: string): Promise<void> {
+  const remove = requireDelete(getCacheStore());
+  const address = email.toLowerCase().trim();
+  const at = address.lastIndexOf('@');
+  const ascii =
+    at > 0 ? `${address.slice(0, at)}@${toAsciiDomain(address.slice(at + 1))}` : address;
+
+  const keys = new Set([
+    getCacheKey(address),
+    getCacheKey(ascii),
+    `${CACHE_PREFIX}${normalizeEmail(ascii)}`,
+  ]);
+  await Promise.all([...keys].map((key) => remove(key)));
+}
+
+/**
+ * Forget every cached address verdict and domain fact (MX, catch-all, disposable,
+ * DeBounce) for a domain
+ *
+ * @returns Number of address entries deleted
+ */
+export async function purgeDomain(domain: string): Promise<number> {
+  const remove = requireDelete(getCacheStore());
+  const ascii = toAsciiDomain(domain);
+  const suffix = `@${ascii}`;
+
+  // With canonical keys, aliases on other domains (googlemail.com -> gmail.com) are stored
+  // under the canonical domain, so also match on the address the result was stored for
+  const purged = await purge(({ key, value }) => {
+    if (!key.includes('@')) return false;
+    if (key.endsWith(suffix)) return true;
+    const stored = unwrapResult(value)?.data.email;
+    return !!stored && toAsciiDomain(stored.slice(stored.lastIndexOf('@') + 1)) === ascii;
+  });
+  await Promise.all(DOMAIN_FACTS.map((fact) => remove(getDomainCacheKey(fact, ascii))));
+  return purged;
+}
+
+/**
+ * Forget every cached address verdict with one of the given reachability statuses,
+ * e.g. purgeByStatus('invalid') after an API incident
+ *
+ * @returns Number of entries deleted
+ */
+export async function purgeByStatus(status: ReachableStatus | ReachableStatus[]): Promise<number> {
+  const statuses = new Set(Array.isArray(status) ? status : [status]);
+  return purge(({ key, value }) => {
+    if (!key.includes('@')) return false;
+    const reachable = unwrapResult(value)?.data.smtp?.is_reachable;
+    return reachable !== undefined && statuses.has(reachable);
+  });
+}
+
+/**
+ * Dump every Sniffmail entry in the configured store to a JSON-serializable snapshot
+ */
+export async function exportCache(): Promise<CacheSnapshot> {
+  const scan = requireScan(getCacheStore());
+  const entries: CacheScanEntry[] = [];
+  for await (const entry of scan(CACHE_PREFIX)) {
+    entries.push({ ...entry, key: entry.key.slice(CACHE_PREFIX.length) });
+  }
+  return { version: SNAPSHOT_VERSION, exportedAt: new Date().toISOString(), entries };
+}
+
+/**
+ * Default lifetime of an entry exported without one: what's left of the TTL recorded in its
+ * envelope, or else the TTL for its status or domain fact
+ */
+function getDefaultTtl(entry: CacheScanEntry): number {
+  const fact = DOMAIN_FACTS.find((name) => entry.key.startsWith(`${name}:`));
+  if (fact) return getDomainTtl(fact);
+  if (!entry.key.includes('@')) return 0;
+
+  const envelope = unwrapResult(entry.value);
+  if (!envelope) return 0;
+  if (envelope.storedAt) {
+    const age = (Date.now() - Date.parse(envelope.storedAt)) / 1000;
+    return Math.floor(envelope.ttl - age) || 0;
+  }
+  return envelope.ttl;
+}
+
+/**
+ * Load a snapshot from exportCache() into the configured store
+ *
+ * @returns Number of entries written (entries that expired since the export are skipped)
+ */
+export async function importCache(
+  snapshot: CacheSnapshot,
+  options: ImportCacheOptions = {}
+): Promise<number> {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported cache snapshot version ${snapshot.version}`);
+  }
+
+  // Exported lifetimes kept running while the snapshot sat on disk
+  const elapsed = Math.max(
+    0,
+    Math.floor((Date.now() - Date.parse(snapshot.exportedAt)) / 1000) || 0
+  );
+  const entries = snapshot.entries
+    .map((entry) => ({
+      key: `${CACHE_PREFIX}${entry.key}`,
+      value: entry.value,
+      ttlSeconds:
+        entry.ttlSeconds !== null
+          ? entry.ttlSeconds - elapsed
+          : (options.ttlSeconds ?? getDefaultTtl(entry)),
+    }))
+    .filter((entry) => entry.ttlSeconds > 0);
+
+  await setMany(getCacheStore(), entries);
+  return entries.length;
+}
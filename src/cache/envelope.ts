@@ -0,0 +1,108 @@
+/**
+ * Cache Entry Envelope
+ *
+ * Cached address results are stored wrapped in an envelope recording the schema version,
+ * when and by which provider they were stored, and their TTL. Entries from an older schema
+ * are upgraded through MIGRATIONS on read; entries that can't be upgraded (e.g. written by
+ * a newer release) are treated as misses and re-verified.
+ */
+
+import type { DeepProvider, ValidationResult } from '../types';
+import { getCacheTtl } from '../config';
+
+/** Bump when the shape of cached results changes, and add a migration from the old version */
+export const CACHE_SCHEMA_VERSION = 1;
+
+export interface CacheEnvelope {
+  /** Schema version of `data` */
+  v: number;
+  /** ISO timestamp of when the result was cached, or null for entries that predate envelopes */
+  storedAt: string | null;
+  /** Provider that verified the address, or null for entries that predate envelopes */
+  source: DeepProvider | null;
+  /** TTL the entry was stored with, in seconds */
+  ttl: number;
+  data: ValidationResult;
+}
+
+type Migration = (entry: unknown) => CacheEnvelope | null;
+
+/**
+ * Upgrades from each version to the next. Version 0 is a bare, unwrapped result as cached
+ * before envelopes.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (entry) => {
+    if (typeof entry !== 'object' || entry === null || !('valid' in entry)) return null;
+    const legacy = entry as Partial<ValidationResult> & Pick<ValidationResult, 'email'>;
+    // Fill in the fields added to results since these entries were written
+    const data: ValidationResult = {
+      disposableSource: null,
+      skipped: [],
+      role: false,
+      freeProvider: false,
+      suggestion: null,
+      syntaxError: null,
+      canonical: legacy.email,
+      mxRecords: null,
+      degraded: false,
+      error: null,
+      ...legacy,
+    } as ValidationResult;
+    return {
+      v: 1,
+      storedAt: null,
+      source: null,
+      ttl: data.smtp ? getCacheTtl(data.smtp.is_reachable) : 0,
+      data,
+    };
+  },
+};
+
+function getVersion(entry: unknown): number {
+  if (typeof entry !== 'object' || entry === null || !('v' in entry) || !('data' in entry)) {
+    return 0;
+  }
+  return typeof entry.v === 'number' ? entry.v : -1;
+}
+
+/**
+ * Wrap a result for the cache
+ */
+export function wrapResult(result: ValidationResult, source: DeepProvider, ttl: number): string {
+  const envelope: CacheEnvelope = {
+    v: CACHE_SCHEMA_VERSION,
+    storedAt: new Date().toISOString(),
+    source,
+    ttl,
+    data: result,
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Parse a cached value, upgrading older schemas
+ *
+ * @returns The envelope at CACHE_SCHEMA_VERSION, or null when the value can't be read
+ */
+export function unwrapResult(value: string): CacheEnvelope | null {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  let version = getVersion(entry);
+  while (version !== CACHE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    entry = migrate(entry);
+    if (entry === null) return null;
+    // Each migration must move forward, or a bad one would loop forever
+    const next = getVersion(entry);
+    if (next <= version) return null;
+    version = next;
+  }
+  return entry as CacheEnvelope;
+}
@@ -0,0 +1,195 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { CacheEntryInput, CacheScanEntry, CacheStore } from '../types';
+
+const DEFAULT_COMPACT_AFTER = 1000;
+
+interface FileEntry {
+  value: string;
+  expires: number;
+}
+
+/** One line of the log: a set (`v` and `e`) or a delete (`d`) */
+interface LogRecord {
+  k: string;
+  v?: string;
+  e?: number;
+  d?: 1;
+}
+
+export interface FileCacheOptions {
+  /** Rewrite the file once it holds this many superseded or expired lines (default: 1000) */
+  compactAfter?: number;
+}
+
+/**
+ * Persistent cache in a single append-only JSON Lines file
+ *
+ * Every write appends a line, so a crash loses at most the line being written (a torn
+ * last line is skipped on load). Entries are loaded into memory on first use and the
+ * file is rewritten without stale lines once enough pile up. Meant for one process at a
+ * time, e.g. a CLI or a serverless function with a persistent volume.
+ *
+ * @example
+ * configure({ cache: { store: new FileCache('./.sniffmail-cache.jsonl') } });
+ */
+export class FileCache implements CacheStore {
+  private entries = new Map<string, FileEntry>();
+  private loading: Promise<void> | null = null;
+  // Writes are chained so lines never interleave and compaction sees a quiet file
+  private writes: Promise<void> = Promise.resolve();
+  private staleLines = 0;
+  // A torn last line needs a newline before the next record, or that record is lost too
+  private needsNewline = false;
+  private readonly compactAfter: number;
+
+  constructor(
+    private readonly path: string,
+    options: FileCacheOptions = {}
+  ) {
+    this.compactAfter = options.compactAfter ?? DEFAULT_COMPACT_AFTER;
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expires) {
+      this.entries.delete(key);
+      this.staleLines++;
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.mset([{ key, value, ttlSeconds }]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.load();
+    if (!this.entries.delete(key)) return;
+    // The old line and the delete record are both stale now
+    this.staleLines += 2;
+    await this.append([{ k: key, d: 1 }]);
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async mset(entries: CacheEntryInput[]): Promise<void> {
+    await this.load();
+    const records: LogRecord[] = [];
+    for (const { key, value, ttlSeconds } of entries) {
+      if (ttlSeconds <= 0) continue;
+      const expires = Date.now() + ttlSeconds * 1000;
+      if (this.entries.has(key)) this.staleLines++;
+      this.entries.set(key, { value, expires });
+      records.push({ k: key, v: value, e: expires });
+    }
+    if (records.length > 0) {
+      await this.append(records);
+    }
+  }
+
+  async *scan(prefix: string): AsyncGenerator<CacheScanEntry> {
+    await this.load();
+    const now = Date.now();
+    for (const [key, entry] of [...this.entries]) {
+      if (!key.startsWith(prefix) || now > entry.expires) continue;
+      yield { key, value: entry.value, ttlSeconds: Math.ceil((entry.expires - now) / 1000) };
+    }
+  }
+
+  /**
+   * Rewrite the file with only the live entries
+   */
+  async compact(): Promise<void> {
+    await this.load();
+    await this.enqueue(() => this.rewrite());
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readLog();
+    return this.loading;
+  }
+
+  private async readLog(): Promise<void> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    this.needsNewline = text.length > 0 && !text.endsWith('\n');
+    const now = Date.now();
+    for (const line of text.split('\n')) {
+      if (!line) continue;
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line) as LogRecord;
+      } catch {
+        // Torn write from a crash
+        this.staleLines++;
+        continue;
+      }
+
+      if (this.entries.has(record.k)) this.staleLines++;
+      if (record.d || record.v === undefined || !record.e || record.e < now) {
+        this.entries.delete(record.k);
+        this.staleLines++;
+      } else {
+        this.entries.set(record.k, { value: record.v, expires: record.e });
+      }
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const write = this.writes.then(task);
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private append(records: LogRecord[]): Promise<void> {
+    const data = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+    return this.enqueue(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      // Entries hold addresses, so keep the file private
+      await appendFile(this.path, this.needsNewline ? `\n${data}` : data, { mode: 0o600 });
+      this.needsNewline = false;
+      if (this.staleLines >= this.compactAfter) {
+        await this.rewrite();
+      }
+    });
+  }
+
+  private async rewrite(): Promise<void> {
+    const now = Date.now();
+    const lines: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.expires < now) {
+        this.entries.delete(key);
+        continue;
+      }
+      lines.push(`${JSON.stringify({ k: key, v: entry.value, e: entry.expires })}\n`);
+    }
+
+    // Write then rename, so a crash mid-write never leaves a truncated file
+    const tmp = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tmp, lines.join(''), { mode: 0o600 });
+    await rename(tmp, this.path);
+    this.staleLines = 0;
+  }
+}
@@ -1,14 +1,37 @@
 import type { CacheStore } from '../types';
-import { getConfig } from '../config';
+import { getConfig, isCacheEnabled } from '../config';
 import { MemoryCache } from './memory';
+import { normalizeEmail } from '../normalize';
 
 export type { CacheStore };
 export { MemoryCache } from './memory';
+export type { MemoryCacheOptions, MemoryCacheStats } from './memory';
 export { RedisCache } from './redis';
+export { FileCache } from './file';
+export type { FileCacheOptions } from './file';
+export { TieredCache } from './tiered';
+export type { TieredCacheOptions } from './tiered';
 
-const CACHE_PREFIX = 'sniffmail:';
+export const CACHE_PREFIX = 'sniffmail:';
+const PREFETCH_CHUNK = 500;
+
+export interface CacheStats {
+  /** Address and domain lookups answered by the cache */
+  hits: number;
+  misses: number;
+  /** Lookups that joined one already in flight for the same key */
+  coalesced: number;
+  /** LRU evictions, when the store is a MemoryCache */
+  evictions: number | null;
+  /** Entries held, when the store is a MemoryCache */
+  size: number | null;
+}
 
 let defaultCache: MemoryCache | null = null;
+const counters = { hits: 0, misses: 0, coalesced: 0 };
+const inflight = new Map<string, Promise<unknown>>();
+// Entries loaded in bulk for a running batch, consumed by getFromCache
+const prefetched = new Map<string, string>();
 
 function getDefaultCache(): MemoryCache {
   if (!defaultCache) {
@@ -22,20 +45,91 @@ export function getCacheStore(): CacheStore {
   return config.cache?.store ?? getDefaultCache();
 }
 
+/**
+ * Get the cache key for an address — its canonical form when cache.keyBy is 'canonical',
+ * so aliases like john.doe+1@gmail.com and johndoe@googlemail.com share one entry
+ */
 export function getCacheKey(email: string): string {
-  return `${CACHE_PREFIX}${email.toLowerCase().trim()}`;
+  const keyByCanonical = getConfig().cache?.keyBy === 'canonical';
+  const key = keyByCanonical ? normalizeEmail(email) : email.toLowerCase().trim();
+  return `${CACHE_PREFIX}${key}`;
+}
+
+function count<T>(value: T | null): T | null {
+  if (value === null) counters.misses++;
+  else counters.hits++;
+  return value;
 }
 
 export async function getFromCache(email: string): Promise<string | null> {
+  const key = getCacheKey(email);
+  const hit = prefetched.get(key);
+  if (hit !== undefined) {
+    prefetched.delete(key);
+    return count(hit);
+  }
+
   const store = getCacheStore();
-  return store.get(getCacheKey(email));
+  return count(await store.get(key));
 }
 
-export async function setInCache(
-  email: string,
-  value: string,
-  ttlSeconds: number
-): Promise<void> {
+/**
+ * Load the cached results of many addresses with the store's mget, so a batch's per-address
+ * reads are answered from memory. Does nothing for stores without mget.
+ *
+ * @returns A function that drops whatever the batch didn't read
+ */
+export async function prefetchFromCache(emails: string[]): Promise<() => void> {
+  const store = getCacheStore();
+  if (!isCacheEnabled() || !store.mget) return () => {};
+
+  const keys = [...new Set(emails.map(getCacheKey))];
+  try {
+    for (let i = 0; i < keys.length; i += PREFETCH_CHUNK) {
+      const chunk = keys.slice(i, i + PREFETCH_CHUNK);
+      const values = await store.mget(chunk);
+      chunk.forEach((key, j) => {
+        const value = values[j];
+        if (value != null) prefetched.set(key, value);
+      });
+    }
+  } catch {
+    // Addresses that weren't prefetched are read one by one, where errors meet onError
+  }
+
+  return () => keys.forEach((key) => prefetched.delete(key));
+}
+
+/**
+ * Run `load` once per key at a time: callers arriving while it runs share its promise, so
+ * 50 parallel validations of one address make a single lookup and a single API call
+ */
+export function coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) {
+    counters.coalesced++;
+    return pending as Promise<T>;
+  }
+
+  const promise = load().finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Hit, miss and coalescing counters, plus eviction stats when the store is a MemoryCache
+ */
+export function getCacheStats(): CacheStats {
+  const store = getCacheStore();
+  const memory = store instanceof MemoryCache ? store.stats() : null;
+  return {
+    ...counters,
+    evictions: memory?.evictions ?? null,
+    size: memory?.size ?? null,
+  };
+}
+
+export async function setInCache(email: string, value: string, ttlSeconds: number): Promise<void> {
   if (ttlSeconds <= 0) {
     return;
   }
@@ -49,3 +143,31 @@ export async function deleteFromCache(email: string): Promise<void> {
     await store.delete(getCacheKey(email));
   }
 }
+
+/**
+ * Get the cache key for a domain-level fact (e.g. sniffmail:mx:example.com)
+ */
+export function getDomainCacheKey(fact: string, domain: string): string {
+  return `${CACHE_PREFIX}${fact}:${domain.toLowerCase()}`;
+}
+
+export async function getDomainFact(fact: string, domain: string): Promise<string | null> {
+  if (!isCacheEnabled()) {
+    return null;
+  }
+  const store = getCacheStore();
+  return count(await store.get(getDomainCacheKey(fact, domain)));
+}
+
+export async function setDomainFact(
+  fact: string,
+  domain: string,
+  value: string,
+  ttlSeconds: number
+): Promise<void> {
+  if (!isCacheEnabled() || ttlSeconds <= 0) {
+    return;
+  }
+  const store = getCacheStore();
+  await store.set(getDomainCacheKey(fact, domain), value, ttlSeconds);
+}
@@ -1,24 +1,83 @@
-import type { CacheStore } from '../types';
+import type { CacheEntryInput, CacheScanEntry, CacheStore } from '../types';
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_SWEEP_INTERVAL = 60000; // 1 minute
 
 interface CacheEntry {
   value: string;
   expires: number;
+  bytes: number;
+}
+
+export interface MemoryCacheOptions {
+  /** Evict least recently used entries beyond this many (default: 10000, 0 for no limit) */
+  maxEntries?: number;
+  /** Evict least recently used entries beyond this many bytes of keys and values (default: no limit) */
+  maxBytes?: number;
+  /** How often expired entries are swept out, in ms (default: 60000, 0 to only expire on read) */
+  sweepInterval?: number;
+}
+
+export interface MemoryCacheStats {
+  size: number;
+  /** Approximate memory held by keys and values */
+  bytes: number;
+  hits: number;
+  misses: number;
+  /** Entries dropped to stay within maxEntries / maxBytes */
+  evictions: number;
+  /** Entries dropped because their TTL ran out */
+  expirations: number;
 }
 
+/**
+ * In-process LRU cache with per-entry TTLs
+ *
+ * A Map keeps entries in recency order: reads move an entry to the end, and eviction
+ * drops from the front. Expired entries are removed on read and by a periodic sweep,
+ * whose timer never keeps the process alive.
+ */
 export class MemoryCache implements CacheStore {
   private store = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    const {
+      maxEntries = DEFAULT_MAX_ENTRIES,
+      maxBytes = 0,
+      sweepInterval = DEFAULT_SWEEP_INTERVAL,
+    } = options;
+    this.maxEntries = maxEntries > 0 ? maxEntries : Infinity;
+    this.maxBytes = maxBytes > 0 ? maxBytes : Infinity;
+
+    if (sweepInterval > 0) {
+      this.sweepTimer = setInterval(() => this.sweep(), sweepInterval);
+      this.sweepTimer.unref();
+    }
+  }
 
   async get(key: string): Promise<string | null> {
     const entry = this.store.get(key);
     if (!entry) {
+      this.counters.misses++;
       return null;
     }
 
     if (Date.now() > entry.expires) {
-      this.store.delete(key);
+      this.remove(key, entry);
+      this.counters.expirations++;
+      this.counters.misses++;
       return null;
     }
 
+    // Move to the most recently used end
+    this.store.delete(key);
+    this.store.set(key, entry);
+    this.counters.hits++;
     return entry.value;
   }
 
@@ -27,21 +86,107 @@ export class MemoryCache implements CacheStore {
       return;
     }
 
+    // Strings are UTF-16 in memory
+    const bytes = (key.length + value.length) * 2;
+    const existing = this.store.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
     this.store.set(key, {
       value,
       expires: Date.now() + ttlSeconds * 1000,
+      bytes,
     });
+    this.bytes += bytes;
+    this.evict();
   }
 
   async delete(key: string): Promise<void> {
-    this.store.delete(key);
+    const entry = this.store.get(key);
+    if (entry) {
+      this.remove(key, entry);
+    }
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async mset(entries: CacheEntryInput[]): Promise<void> {
+    for (const { key, value, ttlSeconds } of entries) {
+      await this.set(key, value, ttlSeconds);
+    }
+  }
+
+  async *scan(prefix: string): AsyncGenerator<CacheScanEntry> {
+    const now = Date.now();
+    // Snapshot first, so deleting while iterating is safe
+    for (const [key, entry] of [...this.store]) {
+      if (!key.startsWith(prefix) || now > entry.expires) continue;
+      yield { key, value: entry.value, ttlSeconds: Math.ceil((entry.expires - now) / 1000) };
+    }
+  }
+
+  /**
+   * Remove every expired entry now
+   *
+   * @returns Number of entries removed
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.store) {
+      if (now > entry.expires) {
+        this.remove(key, entry);
+        removed++;
+      }
+    }
+    this.counters.expirations += removed;
+    return removed;
   }
 
   clear(): void {
     this.store.clear();
+    this.bytes = 0;
   }
 
   size(): number {
     return this.store.size;
   }
+
+  stats(): MemoryCacheStats {
+    return { size: this.store.size, bytes: this.bytes, ...this.counters };
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  close(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private remove(key: string, entry: CacheEntry): void {
+    this.store.delete(key);
+    this.bytes -= entry.bytes;
+  }
+
+  /**
+   * Drop least recently used entries until both limits hold
+   */
+  private evict(): void {
+    while (this.store.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.store.entries().next();
+      if (oldest.done) break;
+      const [key, entry] = oldest.value;
+      this.remove(key, entry);
+      this.counters.evictions++;
+    }
+  }
 }
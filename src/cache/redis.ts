@@ -1,11 +1,23 @@
-import type { CacheStore } from '../types';
+import type { CacheEntryInput, CacheScanEntry, CacheStore } from '../types';
+
+const SCAN_COUNT = 500;
 
 type RedisClient = {
   get(key: string): Promise<string | null>;
   setex(key: string, seconds: number, value: string): Promise<unknown>;
   del(key: string): Promise<unknown>;
+  mget?(...keys: string[]): Promise<(string | null)[]>;
+  scan?(cursor: string, ...args: (string | number)[]): Promise<[string, string[]]>;
+  ttl?(key: string): Promise<number>;
 };
 
+/**
+ * Escape glob characters so a prefix matches literally in SCAN MATCH
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
 export class RedisCache implements CacheStore {
   private client: RedisClient;
 
@@ -27,4 +39,57 @@ export class RedisCache implements CacheStore {
   async delete(key: string): Promise<void> {
     await this.client.del(key);
   }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return [];
+    if (this.client.mget) return this.client.mget(...keys);
+    return Promise.all(keys.map((key) => this.client.get(key)));
+  }
+
+  async mset(entries: CacheEntryInput[]): Promise<void> {
+    // MSET can't set a TTL per key, so the SETEXs are sent concurrently instead
+    await Promise.all(
+      entries.map(({ key, value, ttlSeconds }) => this.set(key, value, ttlSeconds))
+    );
+  }
+
+  /**
+   * Iterate with SCAN MATCH <prefix>*, which never blocks the server the way KEYS does
+   */
+  async *scan(prefix: string): AsyncGenerator<CacheScanEntry> {
+    const { client } = this;
+    if (!client.scan) {
+      throw new Error('RedisCache.scan() needs a client with a scan() method, like ioredis');
+    }
+
+    // SCAN may return a key more than once
+    const seen = new Set<string>();
+    let cursor = '0';
+    do {
+      const [next, found] = await client.scan(
+        cursor,
+        'MATCH',
+        `${escapeGlob(prefix)}*`,
+        'COUNT',
+        SCAN_COUNT
+      );
+      cursor = next;
+
+      const keys = found.filter((key) => !seen.has(key));
+      keys.forEach((key) => seen.add(key));
+      if (keys.length === 0) continue;
+
+      const [values, ttls] = await Promise.all([
+        this.mget(keys),
+        Promise.all(keys.map((key) => client.ttl?.(key) ?? Promise.resolve(-1))),
+      ]);
+      for (let i = 0; i < keys.length; i++) {
+        const value = values[i];
+        // Expired or deleted since SCAN saw it
+        if (value == null) continue;
+        const ttl = ttls[i]!;
+        yield { key: keys[i]!, value, ttlSeconds: ttl > 0 ? ttl : null };
+      }
+    } while (cursor !== '0');
+  }
 }
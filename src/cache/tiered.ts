@@ -0,0 +1,121 @@
+import type { CacheEntryInput, CacheScanEntry, CacheStore } from '../types';
+
+const DEFAULT_L1_TTL = 60; // 1 minute
+
+export interface TieredCacheOptions {
+  /**
+   * Longest an entry stays in L1, in seconds (default: 60). L1 can't see deletes made
+   * through other instances' L2, so this bounds how stale it gets.
+   */
+  l1Ttl?: number;
+}
+
+/**
+ * A small, fast L1 (usually in-process) in front of a shared or persistent L2
+ *
+ * Reads try L1 first and copy L2 hits into it (read-through); writes and deletes go to
+ * both (write-through).
+ *
+ * @example
+ * const store = new TieredCache(new MemoryCache({ maxEntries: 1000 }), new RedisCache(redis));
+ */
+export class TieredCache implements CacheStore {
+  private readonly l1Ttl: number;
+
+  constructor(
+    private readonly l1: CacheStore,
+    private readonly l2: CacheStore,
+    options: TieredCacheOptions = {}
+  ) {
+    this.l1Ttl = options.l1Ttl ?? DEFAULT_L1_TTL;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const local = await this.l1.get(key);
+    if (local !== null) {
+      return local;
+    }
+
+    const value = await this.l2.get(key);
+    if (value !== null) {
+      await this.l1.set(key, value, this.l1Ttl);
+    }
+    return value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (ttlSeconds <= 0) {
+      return;
+    }
+    await Promise.all([
+      this.l1.set(key, value, Math.min(ttlSeconds, this.l1Ttl)),
+      this.l2.set(key, value, ttlSeconds),
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([this.l1.delete?.(key), this.l2.delete?.(key)]);
+  }
+
+  /**
+   * Iterate over L2, which holds every entry (L1 only holds recent copies)
+   */
+  async *scan(prefix: string): AsyncGenerator<CacheScanEntry> {
+    if (!this.l2.scan) {
+      throw new Error('The L2 cache store does not implement scan()');
+    }
+    yield* this.l2.scan(prefix);
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    const values = await getMany(this.l1, keys);
+    const missing = keys.filter((_, i) => values[i] === null);
+    if (missing.length === 0) {
+      return values;
+    }
+
+    const fetched = await getMany(this.l2, missing);
+    const hits: CacheEntryInput[] = [];
+    let next = 0;
+    for (let i = 0; i < keys.length; i++) {
+      if (values[i] !== null) continue;
+      const value = fetched[next++] ?? null;
+      values[i] = value;
+      if (value !== null) hits.push({ key: keys[i]!, value, ttlSeconds: this.l1Ttl });
+    }
+
+    await setMany(this.l1, hits);
+    return values;
+  }
+
+  async mset(entries: CacheEntryInput[]): Promise<void> {
+    const live = entries.filter((entry) => entry.ttlSeconds > 0);
+    await Promise.all([
+      setMany(
+        this.l1,
+        live.map((entry) => ({ ...entry, ttlSeconds: Math.min(entry.ttlSeconds, this.l1Ttl) }))
+      ),
+      setMany(this.l2, live),
+    ]);
+  }
+}
+
+/**
+ * Read many keys, in bulk when the store supports it
+ */
+export function getMany(store: CacheStore, keys: string[]): Promise<(string | null)[]> {
+  if (store.mget) return store.mget(keys);
+  return Promise.all(keys.map((key) => store.get(key)));
+}
+
+/**
+ * Write many entries, in bulk when the store supports it
+ */
+export async function setMany(store: CacheStore, entries: CacheEntryInput[]): Promise<void> {
+  if (entries.length === 0) return;
+  if (store.mset) {
+    await store.mset(entries);
+    return;
+  }
+  await Promise.all(entries.map(({ key, value, ttlSeconds }) => store.set(key, value, ttlSeconds)));
+}
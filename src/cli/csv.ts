@@ -0,0 +1,80 @@
+/**
+ * Streaming CSV (RFC 4180)
+ *
+ * Parses records from text chunks as they arrive, so a file of millions of rows is never held
+ * in memory. Handles quoted fields with embedded delimiters, quotes ("") and newlines, CRLF
+ * line endings and a leading byte order mark. Blank lines are skipped.
+ */
+
+/**
+ * Parse CSV records from a stream of text chunks
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string>,
+  delimiter = ','
+): AsyncGenerator<string[], void, undefined> {
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Just closed a quoted section: a second quote is an escaped quote
+  let afterQuote = false;
+  let first = true;
+
+  for await (const chunk of chunks) {
+    let text = chunk;
+    if (first) {
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+
+    for (const char of text) {
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (afterQuote) field += '"';
+        // Quotes only open a quoted section at the start of a field (or after "")
+        inQuotes = afterQuote || field === '';
+        if (!inQuotes) field += char;
+        afterQuote = false;
+        continue;
+      }
+      afterQuote = false;
+
+      if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\n') {
+        record.push(field);
+        field = '';
+        if (record.length > 1 || record[0] !== '') yield record;
+        record = [];
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+/**
+ * Format one CSV record, quoting fields that need it
+ */
+export function formatCsvRow(fields: string[], delimiter = ','): string {
+  return fields
+    .map((field) =>
+      field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+    )
+    .join(delimiter);
+}
@@ -0,0 +1,495 @@
+#!/usr/bin/env node
+/**
+ * sniffmail CLI
+ *
+ * Cleans CSV and NDJSON lists: reads rows from a file or stdin, validates the email column
+ * with the streaming batch engine and writes every row back out, in input order, with the
+ * result columns appended.
+ *
+ *   sniffmail contacts.csv --column "E-mail" --valid clean.csv --invalid bounced.csv
+ *   cat leads.ndjson | sniffmail --format ndjson --deep > checked.ndjson
+ */
+
+import { createReadStream } from 'fs';
+import { open, writeFile } from 'fs/promises';
+import { once } from 'events';
+import { extname } from 'path';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import type { Readable } from 'stream';
+import { configure } from '../config';
+import { validateEmailStream } from '../batch';
+import { ValidationReport } from '../report';
+import { ValidationJob } from '../job';
+import { ApiKeyNotConfiguredError } from '../api/client';
+import { VERSION } from '../telemetry';
+import type { DeepProvider, ErrorPolicy, ValidationResult } from '../types';
+import { parseCsv, formatCsvRow } from './csv';
+
+const USAGE = `Usage: sniffmail [file] [options]
+
+Validates the email addresses in a CSV or NDJSON file (or stdin) and writes each row back
+out with the columns valid, reason, disposable, mx, reachable and suggestion appended.
+
+Input:
+  -f, --format <csv|ndjson>   Input format (default: from the file extension, else csv)
+  -c, --column <name|number>  CSV column or NDJSON field holding the address
+                              (default: a column named "email", else the first one)
+  -d, --delimiter <char>      CSV delimiter, e.g. ";" or "tab" (default: ",")
+      --no-header             The CSV has no header row
+
+Output:
+  -o, --output <file>         Write all rows here (default: stdout, unless split outputs are set)
+      --valid <file>          Write valid rows here
+      --invalid <file>        Write invalid rows here
+      --risky <file>          Write risky rows (catch-all, full mailbox, failed checks) here
+      --report <file>         Write a Markdown report here
+      --checkpoint <file>     Save progress here; run the same command again to resume
+                              after a crash or a usage-limit stop (exit code 2)
+
+Validation:
+      --deep                  Verify mailboxes (needs an API key, or --deep-provider smtp)
+      --deep-provider <api|smtp>
+      --api-key <key>         Sniffmail API key (default: SNIFFMAIL_API_KEY)
+      --concurrency <n>       Parallel validations (default: 5)
+      --offline               Never touch the network
+      --on-error <open|closed|throw>
+                              Treat addresses whose checks failed as valid, invalid,
+                              or stop the run (default: open)
+
+  -h, --help                  Show this help
+  -v, --version               Show the version
+`;
+
+const RESULT_COLUMNS = ['valid', 'reason', 'disposable', 'mx', 'reachable', 'suggestion'];
+
+// Column names picked by default, compared case-insensitively
+const EMAIL_COLUMN = /^e-?mail([ _-]?address)?$/i;
+
+type Bucket = 'valid' | 'invalid' | 'risky';
+
+interface CliOptions {
+  file: string | null;
+  format: 'csv' | 'ndjson';
+  column?: string;
+  delimiter: string;
+  header: boolean;
+  output?: string;
+  split: Partial<Record<Bucket, string>>;
+  report?: string;
+  checkpoint?: string;
+  deep: boolean;
+  deepProvider?: DeepProvider;
+  apiKey?: string;
+  concurrency?: number;
+  offline: boolean;
+  onError?: ErrorPolicy;
+}
+
+interface Row {
+  email: string;
+  format(result: ValidationResult): string;
+}
+
+/**
+ * Bad arguments or input — reported without a stack trace
+ */
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function parseCliArgs(argv: string[]): CliOptions | 'help' | 'version' {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f' },
+        column: { type: 'string', short: 'c' },
+        delimiter: { type: 'string', short: 'd' },
+        'no-header': { type: 'boolean' },
+        output: { type: 'string', short: 'o' },
+        valid: { type: 'string' },
+        invalid: { type: 'string' },
+        risky: { type: 'string' },
+        report: { type: 'string' },
+        checkpoint: { type: 'string' },
+        deep: { type: 'boolean' },
+        'deep-provider': { type: 'string' },
+        'api-key': { type: 'string' },
+        concurrency: { type: 'string' },
+        offline: { type: 'boolean' },
+        'on-error': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' },
+      },
+    });
+  } catch (error) {
+    throw new CliError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return 'help';
+  if (values.version) return 'version';
+  if (positionals.length > 1) {
+    throw new CliError(`Expected one input file, got ${positionals.length}`);
+  }
+
+  const file = positionals[0] && positionals[0] !== '-' ? positionals[0] : null;
+
+  const format = values.format ?? (/^\.(nd)?jsonl?$/i.test(extname(file ?? '')) ? 'ndjson' : 'csv');
+  if (format !== 'csv' && format !== 'ndjson') {
+    throw new CliError(`Unknown format "${format}" (expected csv or ndjson)`);
+  }
+
+  const deepProvider = values['deep-provider'];
+  if (deepProvider !== undefined && deepProvider !== 'api' && deepProvider !== 'smtp') {
+    throw new CliError(`Unknown deep provider "${deepProvider}" (expected api or smtp)`);
+  }
+
+  const onError = values['on-error'];
+  if (onError !== undefined && onError !== 'open' && onError !== 'closed' && onError !== 'throw') {
+    throw new CliError(`Unknown error policy "${onError}" (expected open, closed or throw)`);
+  }
+
+  let concurrency: number | undefined;
+  if (values.concurrency !== undefined) {
+    concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new CliError(`--concurrency must be a positive integer`);
+    }
+  }
+
+  const delimiter =
+    values.delimiter === 'tab' || values.delimiter === '\\t' ? '\t' : values.delimiter;
+  if (delimiter !== undefined && delimiter.length !== 1) {
+    throw new CliError('--delimiter must be a single character');
+  }
+
+  return {
+    file,
+    format,
+    column: values.column,
+    delimiter: delimiter ?? ',',
+    header: !values['no-header'],
+    output: values.output,
+    split: { valid: values.valid, invalid: values.invalid, risky: values.risky },
+    report: values.report,
+    checkpoint: values.checkpoint,
+    deep: values.deep ?? false,
+    deepProvider,
+    apiKey: values['api-key'],
+    concurrency,
+    offline: values.offline ?? false,
+    onError,
+  };
+}
+
+function getResultColumns(result: ValidationResult) {
+  return {
+    valid: result.valid,
+    reason: result.reason,
+    disposable: result.disposable,
+    mx: result.mx,
+    reachable: result.smtp?.is_reachable ?? 'unverified',
+    suggestion: result.suggestion,
+  };
+}
+
+function getBucket(result: ValidationResult): Bucket {
+  // Degraded results passed or failed by policy, not by a real verdict, so they need review
+  if (result.smtp?.is_reachable === 'risky' || result.degraded) return 'risky';
+  return result.valid ? 'valid' : 'invalid';
+}
+
+/**
+ * Index of the address column: a 1-based number, a header name, or the default
+ */
+function resolveColumn(selector: string | undefined, header: string[] | null): number {
+  if (selector === undefined) {
+    const index = header?.findIndex((name) => EMAIL_COLUMN.test(name.trim())) ?? -1;
+    return Math.max(index, 0);
+  }
+
+  if (/^\d+$/.test(selector)) {
+    const index = Number(selector) - 1;
+    if (index < 0) throw new CliError('--column numbers start at 1');
+    return index;
+  }
+
+  const wanted = selector.trim().toLowerCase();
+  const index = header?.findIndex((name) => name.trim().toLowerCase() === wanted) ?? -1;
+  if (index === -1) {
+    throw new CliError(
+      header
+        ? `Column "${selector}" not found in the CSV header`
+        : `--column must be a number with --no-header`
+    );
+  }
+  return index;
+}
+
+async function* readCsvRows(
+  input: Readable,
+  options: CliOptions,
+  onHeader: (line: string) => Promise<void>
+): AsyncGenerator<Row> {
+  const { delimiter } = options;
+  let column: number | null = null;
+
+  for await (const record of parseCsv(input, delimiter)) {
+    if (column === null) {
+      if (options.header) {
+        column = resolveColumn(options.column, record);
+        await onHeader(formatCsvRow([...record, ...RESULT_COLUMNS], delimiter));
+        continue;
+      }
+      column = resolveColumn(options.column, null);
+    }
+
+    yield {
+      email: record[column] ?? '',
+      format: (result) =>
+        formatCsvRow(
+          [
+            ...record,
+            ...Object.values(getResultColumns(result)).map((value) => String(value ?? '')),
+          ],
+          delimiter
+        ),
+    };
+  }
+}
+
+async function* readNdjsonRows(input: Readable, field = 'email'): AsyncGenerator<Row> {
+  let lineNumber = 0;
+
+  for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new CliError(`Line ${lineNumber} is not valid JSON`);
+    }
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new CliError(`Line ${lineNumber} is not a JSON object`);
+    }
+
+    const value = (record as Record<string, unknown>)[field];
+    yield {
+      email: typeof value === 'string' ? value : '',
+      format: (result) => JSON.stringify({ ...record, ...getResultColumns(result) }),
+    };
+  }
+}
+
+/**
+ * Line sink for rows. File outputs track their size, so a checkpoint can record exactly how
+ * much was written and a resumed run can cut off anything written after it.
+ */
+interface Output {
+  bytes: number;
+  write(line: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+function stdoutOutput(): Output {
+  return {
+    bytes: 0,
+    async write(line) {
+      if (!process.stdout.write(`${line}\n`)) {
+        await once(process.stdout, 'drain');
+      }
+    },
+    async close() {},
+  };
+}
+
+/**
+ * Open a file output, continuing at `offset` when resuming (anything after it is discarded)
+ */
+async function openFileOutput(path: string, offset = 0): Promise<Output> {
+  const handle = await open(path, offset > 0 ? 'r+' : 'w');
+  await handle.truncate(offset);
+
+  const output: Output = {
+    bytes: offset,
+    async write(line) {
+      const data = Buffer.from(`${line}\n`);
+      await handle.write(data, 0, data.length, output.bytes);
+      output.bytes += data.length;
+    },
+    close: () => handle.close(),
+  };
+  return output;
+}
+
+/**
+ * What the CLI saves with each job checkpoint
+ */
+interface CheckpointState {
+  input: string | null;
+  /** Bytes written to each output file */
+  offsets: Record<string, number>;
+}
+
+async function run(argv: string[]): Promise<number> {
+  const options = parseCliArgs(argv);
+  if (options === 'help') {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (options === 'version') {
+    process.stdout.write(`${VERSION}\n`);
+    return 0;
+  }
+
+  if (!options.file && process.stdin.isTTY) {
+    throw new CliError('No input: pass a file or pipe rows to stdin');
+  }
+
+  const splitFiles = Object.entries(options.split).filter(([, file]) => file) as [Bucket, string][];
+  const mainFile = options.output ?? null;
+  const useStdout = mainFile === null && splitFiles.length === 0;
+
+  if (options.checkpoint && useStdout) {
+    throw new CliError('--checkpoint needs --output or split outputs; stdout cannot be resumed');
+  }
+
+  configure({
+    ...(options.offline && { offline: true }),
+    ...(options.apiKey && { apiKey: options.apiKey }),
+    ...(options.deepProvider && { deepProvider: options.deepProvider }),
+    ...(options.onError && { onError: options.onError }),
+  });
+
+  const report = new ValidationReport();
+  const files = new Map<string, Output>();
+
+  const job = options.checkpoint
+    ? new ValidationJob({
+        checkpoint: options.checkpoint,
+        deep: options.deep,
+        concurrency: options.concurrency,
+        report,
+        getState: (): CheckpointState => ({
+          input: options.file,
+          offsets: Object.fromEntries([...files].map(([path, output]) => [path, output.bytes])),
+        }),
+      })
+    : null;
+
+  // Resume where the checkpoint left off
+  const previous = await job?.getCheckpoint();
+  if (previous?.status === 'completed') {
+    process.stderr.write(
+      `Already completed (${previous.cursor} addresses). Delete ${options.checkpoint} to start over.\n`
+    );
+    return 0;
+  }
+  const resumeAt = previous?.cursor ?? 0;
+  const state = previous?.state as CheckpointState | undefined;
+  if (state && state.input !== options.file) {
+    throw new CliError(
+      `${options.checkpoint} belongs to another input (${state.input ?? 'stdin'})`
+    );
+  }
+
+  for (const path of [...(mainFile ? [mainFile] : []), ...splitFiles.map(([, file]) => file)]) {
+    files.set(path, await openFileOutput(path, state?.offsets[path]));
+  }
+  const main = useStdout ? stdoutOutput() : mainFile ? files.get(mainFile)! : null;
+  const buckets = new Map(splitFiles.map(([bucket, file]) => [bucket, files.get(file)!]));
+  const outputs = [...(main ? [main] : []), ...buckets.values()];
+
+  const input = options.file
+    ? createReadStream(options.file, { encoding: 'utf8' })
+    : process.stdin.setEncoding('utf8');
+
+  const rows =
+    options.format === 'csv'
+      ? readCsvRows(input, options, async (header) => {
+          // A resumed run already wrote the header
+          if (!previous) await Promise.all(outputs.map((output) => output.write(header)));
+        })
+      : readNdjsonRows(input, options.column);
+
+  // Results come back in input order, so the rows waiting for them form a FIFO queue.
+  // Rows the job skips on resume are never queued.
+  const queue: Row[] = [];
+  async function* emails(): AsyncGenerator<string> {
+    let index = 0;
+    for await (const row of rows) {
+      if (index++ >= resumeAt) queue.push(row);
+      yield row.email;
+    }
+  }
+
+  const results = job
+    ? job.stream(emails())
+    : validateEmailStream(emails(), {
+        deep: options.deep,
+        concurrency: options.concurrency,
+        ordered: true,
+        report,
+      });
+  const counts: Record<Bucket, number> = { valid: 0, invalid: 0, risky: 0 };
+
+  try {
+    for await (const result of results) {
+      const row = queue.shift()!;
+      const line = row.format(result);
+      const bucket = getBucket(result);
+      counts[bucket]++;
+
+      if (main) await main.write(line);
+      await buckets.get(bucket)?.write(line);
+    }
+  } finally {
+    await Promise.all(outputs.map((output) => output.close()));
+  }
+
+  if (options.report) {
+    await writeFile(options.report, report.toMarkdown());
+  }
+
+  const total = counts.valid + counts.invalid + counts.risky;
+  process.stderr.write(
+    `Validated ${total} addresses: ${counts.valid} valid, ${counts.invalid} invalid, ${counts.risky} risky\n`
+  );
+
+  const checkpoint = await job?.getCheckpoint();
+  if (checkpoint?.status === 'stopped') {
+    process.stderr.write(
+      `Stopped after ${checkpoint.cursor} addresses: ${checkpoint.stopReason}\n` +
+        `Run the same command again to resume.\n`
+    );
+    return 2;
+  }
+  return 0;
+}
+
+// Stdout carries the rows, so library log lines go to stderr
+console.log = console.error;
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: Error) => {
+    if (error instanceof CliError || error instanceof ApiKeyNotConfiguredError) {
+      process.stderr.write(`sniffmail: ${error.message}\n`);
+      if (error instanceof CliError) process.stderr.write(`Run sniffmail --help for usage.\n`);
+    } else {
+      process.stderr.write(`sniffmail: ${error.stack ?? error.message}\n`);
+    }
+    process.exitCode = 1;
+  }
+);
@@ -1,6 +1,22 @@
-import type { SniffmailConfig, CacheTtlConfig } from './types';
+import type {
+  SniffmailConfig,
+  CacheTtlConfig,
+  DomainTtlConfig,
+  TelemetryConfig,
+  DeepProvider,
+  ApiConfig,
+  ErrorPolicy,
+  HttpConfig,
+} from './types';
 
-const API_URL = 'https://api.sniffmail.io';
+const DEFAULT_BASE_URLS: Required<NonNullable<HttpConfig['baseUrls']>> = {
+  api: 'https://api.sniffmail.io',
+  telemetry: 'https://api.sniffmail.io',
+  debounce: 'https://disposable.debounce.io',
+  githubBlocklist:
+    'https://raw.githubusercontent.com/disposable/disposable-email-domains/master/domains_strict.txt',
+  scrapedDomains: 'https://deviceandbrowserinfo.com',
+};
 
 const DEFAULT_TTL: Required<CacheTtlConfig> = {
   safe: 604800, // 7 days
@@ -9,6 +25,13 @@ const DEFAULT_TTL: Required<CacheTtlConfig> = {
   unknown: 0, // don't cache
 };
 
+const DEFAULT_DOMAIN_TTL: Required<DomainTtlConfig> = {
+  mx: 3600, // 1 hour
+  catchAll: 86400, // 1 day
+  disposable: 86400, // 1 day
+  debounce: 86400, // 1 day
+};
+
 let globalConfig: SniffmailConfig = {};
 
 export function configure(opts: SniffmailConfig): void {
@@ -18,12 +41,42 @@ export function configure(opts: SniffmailConfig): void {
     cache: {
       enabled: opts.cache?.enabled ?? globalConfig.cache?.enabled ?? true,
       store: opts.cache?.store ?? globalConfig.cache?.store,
+      keyBy: opts.cache?.keyBy ?? globalConfig.cache?.keyBy,
+      domainTtl: {
+        ...DEFAULT_DOMAIN_TTL,
+        ...globalConfig.cache?.domainTtl,
+        ...opts.cache?.domainTtl,
+      },
       ttl: {
         ...DEFAULT_TTL,
         ...globalConfig.cache?.ttl,
         ...opts.cache?.ttl,
       },
     },
+    telemetry: {
+      ...globalConfig.telemetry,
+      ...opts.telemetry,
+    },
+    dns: {
+      ...globalConfig.dns,
+      ...opts.dns,
+    },
+    smtp: {
+      ...globalConfig.smtp,
+      ...opts.smtp,
+    },
+    http: {
+      ...globalConfig.http,
+      ...opts.http,
+      baseUrls: { ...globalConfig.http?.baseUrls, ...opts.http?.baseUrls },
+      timeouts: { ...globalConfig.http?.timeouts, ...opts.http?.timeouts },
+      headers: { ...globalConfig.http?.headers, ...opts.http?.headers },
+    },
+    api: {
+      retry: { ...globalConfig.api?.retry, ...opts.api?.retry },
+      rateLimit: { ...globalConfig.api?.rateLimit, ...opts.api?.rateLimit },
+      circuitBreaker: { ...globalConfig.api?.circuitBreaker, ...opts.api?.circuitBreaker },
+    },
   };
 }
 
@@ -32,14 +85,53 @@ export function getConfig(): SniffmailConfig {
 }
 
 export function getApiUrl(): string {
-  return API_URL;
+  return getBaseUrl('api');
+}
+
+/**
+ * Configured base URL of a service, without a trailing slash
+ */
+export function getBaseUrl(service: keyof NonNullable<HttpConfig['baseUrls']>): string {
+  const url = globalConfig.http?.baseUrls?.[service] ?? DEFAULT_BASE_URLS[service];
+  return url.replace(/\/+$/, '');
 }
 
 export function getApiKey(): string | undefined {
   return globalConfig.apiKey || process.env.SNIFFMAIL_API_KEY;
 }
 
-export function getCacheTtl(status: 'safe' | 'invalid' | 'risky' | 'unknown' | 'unverified'): number {
+export function isOffline(): boolean {
+  if (globalConfig.offline !== undefined) return globalConfig.offline;
+  const env = process.env.SNIFFMAIL_OFFLINE;
+  return env === '1' || env === 'true';
+}
+
+export function getDeepProvider(): DeepProvider {
+  return globalConfig.deepProvider ?? 'api';
+}
+
+export function getErrorPolicy(): ErrorPolicy {
+  return globalConfig.onError ?? 'open';
+}
+
+export function getApiConfig(): ApiConfig {
+  return globalConfig.api ?? {};
+}
+
+export function getTelemetryConfig(): TelemetryConfig {
+  return globalConfig.telemetry ?? {};
+}
+
+export function isTelemetryEnabled(): boolean {
+  if (isOffline()) return false;
+  if (globalConfig.telemetry?.enabled !== undefined) return globalConfig.telemetry.enabled;
+  const env = process.env.SNIFFMAIL_TELEMETRY;
+  return !(env === '0' || env === 'false' || env === 'off');
+}
+
+export function getCacheTtl(
+  status: 'safe' | 'invalid' | 'risky' | 'unknown' | 'unverified'
+): number {
   if (status === 'unverified') return DEFAULT_TTL.unknown; // treat unverified same as unknown — don't cache
   return globalConfig.cache?.ttl?.[status] ?? DEFAULT_TTL[status];
 }
@@ -47,3 +139,7 @@ export function getCacheTtl(status: 'safe' | 'invalid' | 'risky' | 'unknown' | '
 export function isCacheEnabled(): boolean {
   return globalConfig.cache?.enabled ?? true;
 }
+
+export function getDomainTtl(fact: keyof DomainTtlConfig): number {
+  return globalConfig.cache?.domainTtl?.[fact] ?? DEFAULT_DOMAIN_TTL[fact];
+}
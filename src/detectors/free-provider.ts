@@ -0,0 +1,25 @@
+/**
+ * Free Provider Classification
+ *
+ * Tells personal webmail and consumer ISP mailboxes (gmail.com, outlook.com,
+ * yahoo.com, mail.ru, ...) apart from corporate domains, for B2B signup gating.
+ * Backed by the bundled src/data/free-providers.json dataset; no network access.
+ */
+
+import freeProviders from '../data/free-providers.json';
+
+const FREE_PROVIDERS: ReadonlySet<string> = new Set(freeProviders.domains);
+
+/**
+ * Check if a domain is a free email provider
+ */
+export function isFreeProvider(domain: string): boolean {
+  return FREE_PROVIDERS.has(domain.toLowerCase().trim());
+}
+
+/**
+ * Get all known free provider domains
+ */
+export function getFreeProviders(): ReadonlySet<string> {
+  return FREE_PROVIDERS;
+}
@@ -0,0 +1,173 @@
+/**
+ * Role Account Detection
+ *
+ * Flags addresses that belong to a function or team rather than a person
+ * (admin@, support@, noreply@, postmaster@, info@, ...). Runs locally with no
+ * network access. The default prefix list covers common English, German, French,
+ * Spanish, Italian, Portuguese and Dutch role names; configure({ rolePrefixes })
+ * replaces it.
+ */
+
+import { getConfig } from '../config';
+
+export const DEFAULT_ROLE_PREFIXES: readonly string[] = [
+  // English
+  'abuse',
+  'accounting',
+  'accounts',
+  'admin',
+  'administrator',
+  'billing',
+  'careers',
+  'compliance',
+  'contact',
+  'contactus',
+  'customercare',
+  'customerservice',
+  'customersupport',
+  'dev',
+  'devnull',
+  'dns',
+  'donotreply',
+  'enquiries',
+  'enquiry',
+  'everyone',
+  'feedback',
+  'finance',
+  'ftp',
+  'hello',
+  'help',
+  'helpdesk',
+  'hostmaster',
+  'hr',
+  'info',
+  'information',
+  'inquiries',
+  'inquiry',
+  'jobs',
+  'legal',
+  'list',
+  'mail',
+  'mailer-daemon',
+  'marketing',
+  'media',
+  'news',
+  'newsletter',
+  'noc',
+  'noreply',
+  'notifications',
+  'nobody',
+  'office',
+  'orders',
+  'postmaster',
+  'press',
+  'privacy',
+  'purchasing',
+  'recruitment',
+  'reception',
+  'root',
+  'sales',
+  'security',
+  'service',
+  'staff',
+  'subscribe',
+  'support',
+  'sysadmin',
+  'team',
+  'tech',
+  'undisclosed-recipients',
+  'unsubscribe',
+  'usenet',
+  'uucp',
+  'webmaster',
+  'www',
+  // German
+  'anfrage',
+  'bestellung',
+  'bewerbung',
+  'buchhaltung',
+  'datenschutz',
+  'einkauf',
+  'impressum',
+  'kontakt',
+  'kundenservice',
+  'presse',
+  'rechnung',
+  'verkauf',
+  'vertrieb',
+  'verwaltung',
+  // French
+  'accueil',
+  'assistance',
+  'bonjour',
+  'commercial',
+  'comptabilite',
+  'direction',
+  'facturation',
+  'recrutement',
+  'secretariat',
+  'ventes',
+  // Spanish
+  'administracion',
+  'atencionalcliente',
+  'ayuda',
+  'contacto',
+  'facturacion',
+  'informacion',
+  'pedidos',
+  'soporte',
+  'ventas',
+  // Italian
+  'amministrazione',
+  'assistenza',
+  'commerciale',
+  'contatti',
+  'segreteria',
+  'supporto',
+  'vendite',
+  // Portuguese
+  'atendimento',
+  'contato',
+  'financeiro',
+  'suporte',
+  'vendas',
+  // Dutch
+  'administratie',
+  'klantenservice',
+  'verkoop',
+];
+
+const prefixSets = new WeakMap<readonly string[], Set<string>>();
+
+function getPrefixSet(): Set<string> {
+  const prefixes = getConfig().rolePrefixes ?? DEFAULT_ROLE_PREFIXES;
+  let set = prefixSets.get(prefixes);
+  if (!set) {
+    set = new Set(prefixes.map((p) => p.toLowerCase()));
+    prefixSets.set(prefixes, set);
+  }
+  return set;
+}
+
+/**
+ * Check if the local part of an address is a role account
+ *
+ * Matches the local part exactly after dropping any `+tag`, and also tolerates
+ * separators and trailing digits (`no-reply`, `no.reply`, `support2`).
+ *
+ * @param email - Full email address or bare local part
+ */
+export function isRoleAccount(email: string): boolean {
+  const at = email.lastIndexOf('@');
+  const localPart = (at === -1 ? email : email.slice(0, at)).toLowerCase().split('+')[0]!;
+  if (!localPart) return false;
+
+  const prefixes = getPrefixSet();
+  if (prefixes.has(localPart)) return true;
+
+  const collapsed = localPart.replace(/[._-]/g, '');
+  if (prefixes.has(collapsed)) return true;
+
+  const withoutDigits = collapsed.replace(/\d+$/, '');
+  return withoutDigits !== collapsed && prefixes.has(withoutDigits);
+}
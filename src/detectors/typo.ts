@@ -0,0 +1,235 @@
+/**
+ * Typo Suggestions ("did you mean gmail.com?")
+ *
+ * Compares a domain with popular provider domains and common TLD mistakes using a
+ * weighted Damerau-Levenshtein distance, where substituting a neighbouring key on a
+ * QWERTY keyboard costs less than any other edit. Runs synchronously with no network
+ * access, so it can drive inline form hints.
+ */
+
+import { isFreeProvider } from './free-provider';
+
+// Popular domains people mistype. Short names (me.com, qq.com, ...) are left out on
+// purpose: one edit away from them is usually another real domain.
+const POPULAR_DOMAINS: readonly string[] = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'yahoo.co.uk',
+  'yahoo.fr',
+  'ymail.com',
+  'hotmail.com',
+  'hotmail.co.uk',
+  'hotmail.fr',
+  'outlook.com',
+  'live.com',
+  'icloud.com',
+  'aol.com',
+  'protonmail.com',
+  'proton.me',
+  'mail.ru',
+  'yandex.ru',
+  'rambler.ru',
+  'gmx.de',
+  'gmx.net',
+  'web.de',
+  't-online.de',
+  'orange.fr',
+  'wanadoo.fr',
+  'laposte.net',
+  'libero.it',
+  'comcast.net',
+  'verizon.net',
+  'sbcglobal.net',
+  'btinternet.com',
+  'fastmail.com',
+  'zoho.com',
+];
+
+// Real TLDs that must never be "corrected"
+const KNOWN_TLDS: ReadonlySet<string> = new Set([
+  'com',
+  'net',
+  'org',
+  'edu',
+  'gov',
+  'mil',
+  'int',
+  'info',
+  'biz',
+  'io',
+  'co',
+  'ai',
+  'app',
+  'dev',
+  'me',
+  'us',
+  'uk',
+  'ca',
+  'au',
+  'nz',
+  'de',
+  'fr',
+  'es',
+  'it',
+  'nl',
+  'be',
+  'ch',
+  'at',
+  'se',
+  'no',
+  'dk',
+  'fi',
+  'pl',
+  'cz',
+  'pt',
+  'ie',
+  'ru',
+  'ua',
+  'jp',
+  'cn',
+  'kr',
+  'in',
+  'br',
+  'mx',
+  'ar',
+  'za',
+  'tv',
+  'cc',
+  'ws',
+  'eu',
+  'asia',
+  'xyz',
+  'online',
+  'site',
+  'tech',
+  'store',
+  'email',
+  'mail',
+  'shop',
+  'cloud',
+  'pro',
+  'name',
+  'mobi',
+]);
+
+// TLDs people meant when they mistyped one
+const POPULAR_TLDS: readonly string[] = ['com', 'net', 'org', 'edu', 'gov', 'info', 'co.uk'];
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+const KEY_POSITIONS = new Map<string, [number, number]>();
+KEYBOARD_ROWS.forEach((row, y) => {
+  [...row].forEach((key, x) => KEY_POSITIONS.set(key, [x + y * 0.5, y]));
+});
+
+function isAdjacentKey(a: string, b: string): boolean {
+  const pa = KEY_POSITIONS.get(a);
+  const pb = KEY_POSITIONS.get(b);
+  if (!pa || !pb) return false;
+  return Math.abs(pa[0] - pb[0]) <= 1 && Math.abs(pa[1] - pb[1]) <= 1;
+}
+
+/**
+ * Weighted Damerau-Levenshtein distance (optimal string alignment)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i]![0] = i;
+  for (let j = 0; j < cols; j++) d[0]![j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const ca = a[i - 1]!;
+      const cb = b[j - 1]!;
+      const substitution = ca === cb ? 0 : isAdjacentKey(ca, cb) ? 0.5 : 1;
+
+      let cost = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + substitution);
+
+      if (i > 1 && j > 1 && ca === b[j - 2] && a[i - 2] === cb) {
+        cost = Math.min(cost, d[i - 2]![j - 2]! + 1);
+      }
+
+      d[i]![j] = cost;
+    }
+  }
+
+  return d[rows - 1]![cols - 1]!;
+}
+
+/**
+ * Find the closest candidate within the allowed distance
+ */
+function closest(value: string, candidates: readonly string[], maxDistance: number): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance > 0 && distance <= maxDistance && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Suggest a correction for a likely misspelled domain
+ *
+ * @returns The corrected domain, or null when the domain looks fine
+ *
+ * @example
+ * suggestDomain('gmial.com'); // 'gmail.com'
+ * suggestDomain('company.con'); // 'company.com'
+ */
+export function suggestDomain(domain: string): string | null {
+  const normalizedDomain = domain.toLowerCase().trim();
+  if (!normalizedDomain || isFreeProvider(normalizedDomain)) return null;
+
+  // Popular provider domains: up to 2 edits, fewer for short domains
+  const maxDistance = normalizedDomain.length < 8 ? 1 : 2;
+  const provider = closest(normalizedDomain, POPULAR_DOMAINS, maxDistance);
+  if (provider) return provider;
+
+  // Missing dot before the TLD (gmailcom)
+  for (const tld of POPULAR_TLDS) {
+    const suffix = tld.replace('.', '');
+    if (!normalizedDomain.includes('.') && normalizedDomain.endsWith(suffix)) {
+      const name = normalizedDomain.slice(0, -suffix.length);
+      if (name) return `${name}.${tld}`;
+    }
+  }
+
+  // Mistyped TLD (company.con, company.ogr)
+  const dot = normalizedDomain.lastIndexOf('.');
+  if (dot <= 0) return null;
+
+  const name = normalizedDomain.slice(0, dot);
+  const tld = normalizedDomain.slice(dot + 1);
+  if (KNOWN_TLDS.has(tld)) return null;
+
+  const fixedTld = closest(tld, POPULAR_TLDS, 1);
+  return fixedTld ? `${name}.${fixedTld}` : null;
+}
+
+/**
+ * Suggest a correction for an email address with a likely misspelled domain
+ *
+ * @returns The corrected address, or null when the address looks fine
+ *
+ * @example
+ * suggestEmail('user@gmail.con'); // 'user@gmail.com'
+ */
+export function suggestEmail(email: string): string | null {
+  const normalizedEmail = email.toLowerCase().trim();
+  const at = normalizedEmail.lastIndexOf('@');
+  if (at <= 0) return null;
+
+  const suggestion = suggestDomain(normalizedEmail.slice(at + 1));
+  return suggestion ? `${normalizedEmail.slice(0, at)}@${suggestion}` : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * MX Resolver
+ *
+ * Looks up the mail exchangers of a domain with dns.promises.Resolver, using the
+ * nameservers and per-query timeout from configure({ dns }). Follows RFC 5321:
+ *
+ * - MX records are returned sorted by priority
+ * - A domain without MX records but with an A/AAAA record gets an implicit MX (§5.1)
+ * - A null MX (`0 .`, RFC 7505) means the domain explicitly accepts no mail
+ *
+ * Answers are cached through the configured CacheStore (`cache.domainTtl.mx`).
+ */
+
+import { promises as dns } from 'dns';
+import type { MxRecord } from '../types';
+import { getConfig, getDomainTtl } from '../config';
+import { getDomainFact, setDomainFact } from '../cache';
+
+const DEFAULT_TIMEOUT = 5000; // 5 seconds
+const DEFAULT_TRIES = 2;
+
+// Answers that mean "no such records" rather than a failed lookup
+const NO_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+export interface MxLookupResult {
+  /** Mail exchangers, sorted by priority (the domain itself for an implicit MX) */
+  records: MxRecord[];
+  /** Domain publishes a null MX and accepts no mail */
+  nullMx: boolean;
+  /** No MX records; fell back to the domain's A/AAAA records */
+  implicit: boolean;
+}
+
+export interface ResolveMxOptions {
+  /** Per-query timeout in ms (default: dns.timeout, then 5000) */
+  timeout?: number;
+}
+
+export class DnsLookupError extends Error {
+  public code?: string;
+
+  constructor(domain: string, code?: string) {
+    super(`DNS lookup failed for ${domain}${code ? ` (${code})` : ''}`);
+    this.name = 'DnsLookupError';
+    this.code = code;
+  }
+}
+
+const resolvers = new Map<string, dns.Resolver>();
+
+function getResolver(timeout: number): dns.Resolver {
+  const { servers, tries = DEFAULT_TRIES } = getConfig().dns ?? {};
+  const key = `${servers?.join(',') ?? ''}|${timeout}|${tries}`;
+
+  let resolver = resolvers.get(key);
+  if (!resolver) {
+    resolver = new dns.Resolver({ timeout, tries });
+    if (servers?.length) {
+      resolver.setServers(servers);
+    }
+    resolvers.set(key, resolver);
+  }
+  return resolver;
+}
+
+function isNoRecords(error: unknown): boolean {
+  return NO_RECORD_CODES.has((error as NodeJS.ErrnoException).code ?? '');
+}
+
+/**
+ * Resolve a record type, mapping "no records" answers to an empty list
+ */
+async function resolveOrEmpty<T>(domain: string, lookup: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await lookup();
+  } catch (error) {
+    if (isNoRecords(error)) return [];
+    throw new DnsLookupError(domain, (error as NodeJS.ErrnoException).code);
+  }
+}
+
+async function lookupMx(domain: string, timeout: number): Promise<MxLookupResult> {
+  const resolver = getResolver(timeout);
+  const mx = await resolveOrEmpty(domain, () => resolver.resolveMx(domain));
+
+  if (mx.length === 1 && (mx[0]!.exchange === '' || mx[0]!.exchange === '.')) {
+    return { records: [], nullMx: true, implicit: false };
+  }
+
+  if (mx.length > 0) {
+    const records = mx
+      .map(({ exchange, priority }) => ({ exchange: exchange.toLowerCase(), priority }))
+      .sort((a, b) => a.priority - b.priority);
+    return { records, nullMx: false, implicit: false };
+  }
+
+  // RFC 5321 §5.1: no MX records — the domain's own address acts as an implicit MX
+  const [ipv4, ipv6] = await Promise.all([
+    resolveOrEmpty(domain, () => resolver.resolve4(domain)),
+    resolveOrEmpty(domain, () => resolver.resolve6(domain)),
+  ]);
+  if (ipv4.length > 0 || ipv6.length > 0) {
+    return { records: [{ exchange: domain, priority: 0 }], nullMx: false, implicit: true };
+  }
+
+  return { records: [], nullMx: false, implicit: false };
+}
+
+/**
+ * Look up the mail exchangers of a domain
+ *
+ * @throws DnsLookupError when the lookup itself fails (timeout, SERVFAIL, refused)
+ */
+export async function resolveMx(
+  domain: string,
+  options: ResolveMxOptions = {}
+): Promise<MxLookupResult> {
+  const cached = await getDomainFact('mx', domain);
+  if (cached) {
+    return JSON.parse(cached) as MxLookupResult;
+  }
+
+  const timeout = options.timeout ?? getConfig().dns?.timeout ?? DEFAULT_TIMEOUT;
+  const result = await lookupMx(domain, timeout);
+
+  await setDomainFact('mx', domain, JSON.stringify(result), getDomainTtl('mx'));
+  return result;
+}
+
+/**
+ * Check if a lookup result means the domain can receive mail
+ */
+export function acceptsMail(result: MxLookupResult): boolean {
+  return !result.nullMx && result.records.length > 0;
+}
@@ -0,0 +1,50 @@
+/**
+ * HTTP Layer
+ *
+ * Every outgoing request goes through httpRequest(), which applies the `http` config section:
+ * the fetch implementation (proxy-aware fetch, test doubles), extra headers and a timeout
+ * per endpoint. Base URLs come from getBaseUrl() in config.
+ */
+
+import { getConfig } from './config';
+import type { HttpEndpoint } from './types';
+
+// Defaults in ms, matching what each caller used before they were configurable
+const DEFAULT_TIMEOUTS: Record<HttpEndpoint, number> = {
+  verify: 30000,
+  health: 5000,
+  telemetry: 10000,
+  debounce: 3000,
+  githubBlocklist: 30000,
+  scrapedDomains: 15000,
+};
+
+export function getHttpTimeout(endpoint: HttpEndpoint): number {
+  return getConfig().http?.timeouts?.[endpoint] ?? DEFAULT_TIMEOUTS[endpoint];
+}
+
+/**
+ * Send a request with the configured fetch, headers and timeout for `endpoint`
+ *
+ * A timeout aborts the request, so fetch rejects with an `AbortError`.
+ */
+export async function httpRequest(
+  endpoint: HttpEndpoint,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const { fetch: fetchImpl = globalThis.fetch, headers } = getConfig().http ?? {};
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), getHttpTimeout(endpoint));
+
+  try {
+    return await fetchImpl(url, {
+      ...init,
+      headers: { ...headers, ...(init.headers as Record<string, string> | undefined) },
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -15,7 +15,14 @@ export {
 } from './validator';
 
 // Batch validation
-export { validateEmails } from './batch';
+export { validateEmails, validateEmailStream } from './batch';
+
+// Resumable jobs
+export { ValidationJob } from './job';
+export type { JobCheckpoint, JobOptions, JobResult, JobStatus } from './job';
+
+// Reporting
+export { ValidationReport } from './report';
 
 // Configuration
 export { configure } from './config';
@@ -26,40 +33,124 @@ export type {
   ValidationOptions,
   BatchValidationOptions,
   BatchValidationResult,
+  BatchProgress,
+  StreamValidationOptions,
+  ValidationReportData,
+  DomainReportEntry,
   SmtpResult,
   ValidationReason,
   ReachableStatus,
   SniffmailConfig,
   CacheStore,
+  CacheEntryInput,
+  CacheScanEntry,
   CacheTtlConfig,
+  DomainSource,
+  DomainSourceStats,
+  SkippedCheck,
+  TelemetryConfig,
+  TelemetryEvent,
+  TelemetryMode,
+  SyntaxErrorCode,
+  MxRecord,
+  DnsConfig,
+  DomainTtlConfig,
+  DeepProvider,
+  SmtpConfig,
+  ApiConfig,
+  RetryConfig,
+  RateLimitConfig,
+  CircuitBreakerConfig,
+  ErrorPolicy,
+  HttpConfig,
+  HttpEndpoint,
 } from './types';
 
+// DNS resolver
+export { resolveMx, DnsLookupError } from './dns/resolver';
+export type { MxLookupResult, ResolveMxOptions } from './dns/resolver';
+
+// SMTP mailbox probe
+export { probeMailbox, classifyRcptReply, SmtpError } from './smtp/probe';
+export type { SmtpProbeResult, SmtpReply } from './smtp/probe';
+
+// Address normalization
+export { normalizeEmail } from './normalize';
+export type { NormalizeOptions } from './normalize';
+
+// Syntax parser
+export { parseEmail } from './syntax';
+export type { ParsedEmail, ParseResult, ParseOptions } from './syntax';
+
 // Cache utilities (for advanced usage)
-export { MemoryCache, RedisCache } from './cache';
+export { MemoryCache, RedisCache, FileCache, TieredCache } from './cache';
+export type {
+  CacheStats,
+  MemoryCacheOptions,
+  MemoryCacheStats,
+  FileCacheOptions,
+  TieredCacheOptions,
+} from './cache';
+
+// Cache administration
+export {
+  invalidateEmail,
+  purgeDomain,
+  purgeByStatus,
+  exportCache,
+  importCache,
+  UnsupportedCacheOperationError,
+} from './cache/admin';
+export type { CacheSnapshot, ImportCacheOptions } from './cache/admin';
+export { CACHE_SCHEMA_VERSION } from './cache/envelope';
+export type { CacheEnvelope } from './cache/envelope';
 
 // Error classes (for error handling)
-export { ApiKeyNotConfiguredError, SniffmailError } from './api/client';
+export {
+  ApiKeyNotConfiguredError,
+  SniffmailError,
+  QuotaExceededError,
+  CircuitOpenError,
+} from './api/client';
+
+// Disposable source registry
+export { defaultSources, getSources, loadSources } from './sources/registry';
+export { createFileSource } from './sources/local-files';
+
+// Local detectors
+export { isRoleAccount, DEFAULT_ROLE_PREFIXES } from './detectors/role';
+export { isFreeProvider, getFreeProviders } from './detectors/free-provider';
+export { suggestEmail, suggestDomain } from './detectors/typo';
+
+// Allowlist / denylist overrides
+export {
+  isAllowlisted,
+  isDenylisted,
+  matchesDomainPattern,
+  getDefaultAllowlist,
+} from './sources/overrides';
 
 // Re-export individual source modules for advanced usage
 export {
   isInGitHubBlocklist,
   fetchGitHubBlocklist,
   getGitHubBlocklistStats,
+  githubBlocklistSource,
 } from './sources/github-blocklist';
 
-export {
-  checkDeBounceAPI,
-  getDebounceCacheStats,
-} from './sources/debounce-api';
+export { checkDeBounceAPI, getDebounceCacheStats, debounceSource } from './sources/debounce-api';
+export type { DeBounceOptions } from './sources/debounce-api';
 
 export {
   isInScrapedBlocklist,
   fetchScrapedDomains,
   getScrapedDomainsStats,
+  scrapedDomainsSource,
 } from './sources/scraped-domains';
 
 export {
   isDiscoveredDomain,
   getDiscoveredDomains,
   getDiscoveredDomainsStats,
+  discoveredDomainsSource,
 } from './sources/discovered-domains';
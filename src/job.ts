@@ -0,0 +1,361 @@
+/**
+ * Resumable Validation Jobs
+ *
+ * Runs a batch on top of the streaming engine and periodically saves a checkpoint (input
+ * cursor and status) to a file or a CacheStore. Running the job again with the same
+ * checkpoint skips the addresses it already finished. run() also saves the results finished
+ * since the last checkpoint, appended to a `.results.jsonl` file next to a file checkpoint or
+ * as one entry per save in a CacheStore, so each save costs the same however long the list.
+ *
+ * A 403 usage-limit error stops the job cleanly instead of failing open: the checkpoint is
+ * saved as `stopped` and the next run resumes where this one ended.
+ */
+
+import { appendFile, readFile, writeFile, rename, unlink } from 'fs/promises';
+import { streamResults, createDomainCheckMemo } from './batch';
+import { validateAddress } from './validator';
+import { QuotaExceededError } from './api/client';
+import type { CacheStore, StreamValidationOptions, ValidationResult } from './types';
+
+const CHECKPOINT_VERSION = 2;
+const DEFAULT_CHECKPOINT_EVERY = 100;
+const DEFAULT_CHECKPOINT_TTL = 604800; // 7 days
+const DEFAULT_JOB_ID = 'default';
+
+export type JobStatus = 'running' | 'stopped' | 'completed';
+
+export interface JobCheckpoint {
+  version: number;
+  jobId: string;
+  status: JobStatus;
+  /** Input addresses finished, in input order; a resumed run skips this many */
+  cursor: number;
+  /** Why the job stopped (e.g. the usage limit message) */
+  stopReason: string | null;
+  /** Result entries saved to a CacheStore checkpoint by run() */
+  resultChunks?: number;
+  /** Caller state saved alongside the cursor (see JobOptions.getState) */
+  state?: unknown;
+  updatedAt: string;
+}
+
+export interface JobOptions extends Omit<StreamValidationOptions, 'ordered'> {
+  /** Where to save progress: a file path or a CacheStore */
+  checkpoint: string | CacheStore;
+  /** Names the job's CacheStore entry (default: 'default') */
+  jobId?: string;
+  /** Save after this many finished addresses (default: 100) */
+  checkpointEvery?: number;
+  /** TTL in seconds for CacheStore checkpoints (default: 7 days) */
+  checkpointTtl?: number;
+  /** Extra state to save with every checkpoint, e.g. output file offsets */
+  getState?: () => unknown;
+}
+
+export interface JobResult {
+  status: Exclude<JobStatus, 'running'>;
+  /** Input addresses finished, this run and previous ones */
+  cursor: number;
+  stopReason: string | null;
+  /** Results of every finished address, previous runs included */
+  results: ValidationResult[];
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof QuotaExceededError;
+}
+
+/**
+ * Skip the first `count` items of an iterable
+ */
+async function* skip<T>(items: AsyncIterable<T> | Iterable<T>, count: number): AsyncGenerator<T> {
+  let index = 0;
+  for await (const item of items) {
+    if (index++ >= count) yield item;
+  }
+}
+
+/**
+ * A batch validation that can stop and resume from its checkpoint
+ *
+ * @example
+ * const job = new ValidationJob({ checkpoint: './list.checkpoint.json', deep: true });
+ * const { status, results } = await job.run(emails);
+ * if (status === 'stopped') {
+ *   // usage limit hit — run the job again later to resume
+ * }
+ */
+export class ValidationJob {
+  private readonly options: JobOptions;
+  private readonly jobId: string;
+
+  constructor(options: JobOptions) {
+    this.options = options;
+    this.jobId = options.jobId ?? DEFAULT_JOB_ID;
+  }
+
+  private get cacheKey(): string {
+    return `sniffmail:job:${this.jobId}`;
+  }
+
+  private getResultsKey(chunk: number): string {
+    return `${this.cacheKey}:results:${chunk}`;
+  }
+
+  private getResultsPath(checkpoint: string): string {
+    return `${checkpoint}.results.jsonl`;
+  }
+
+  async getCheckpoint(): Promise<JobCheckpoint | null> {
+    const { checkpoint } = this.options;
+    let raw: string | null;
+
+    if (typeof checkpoint === 'string') {
+      try {
+        raw = await readFile(checkpoint, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    } else {
+      raw = await checkpoint.get(this.cacheKey);
+    }
+
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as JobCheckpoint;
+    return parsed.version === CHECKPOINT_VERSION ? parsed : null;
+  }
+
+  private async saveCheckpoint(checkpoint: JobCheckpoint): Promise<void> {
+    const target = this.options.checkpoint;
+    const data = JSON.stringify(checkpoint);
+
+    if (typeof target === 'string') {
+      // Write then rename, so a crash mid-write never leaves a truncated checkpoint
+      const tmp = `${target}.tmp`;
+      await writeFile(tmp, data);
+      await rename(tmp, target);
+    } else {
+      await target.set(this.cacheKey, data, this.options.checkpointTtl ?? DEFAULT_CHECKPOINT_TTL);
+    }
+  }
+
+  /**
+   * Load the results run() saved before the checkpoint, dropping any saved after it (by a
+   * run that crashed between saving its results and its checkpoint)
+   */
+  private async loadResults(previous: JobCheckpoint | null): Promise<ValidationResult[]> {
+    const target = this.options.checkpoint;
+    const cursor = previous?.cursor ?? 0;
+
+    if (typeof target !== 'string') {
+      const results: ValidationResult[] = [];
+      for (let chunk = 0; chunk < (previous?.resultChunks ?? 0); chunk++) {
+        const raw = await target.get(this.getResultsKey(chunk));
+        if (raw === null) {
+          throw new Error(
+            `Results of job "${this.jobId}" expired from the cache store; reset() the job to start over`
+          );
+        }
+        results.push(...(JSON.parse(raw) as ValidationResult[]));
+      }
+      return results.slice(0, cursor);
+    }
+
+    const path = this.getResultsPath(target);
+    let lines: string[];
+    try {
+      lines = (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const results: ValidationResult[] = [];
+    for (const line of lines.slice(0, cursor)) {
+      try {
+        results.push(JSON.parse(line) as ValidationResult);
+      } catch {
+        // Torn write from a crash; the checkpoint can't have counted it
+        break;
+      }
+    }
+
+    // Later lines would be followed by this run's results, so rewrite without them
+    if (lines.length !== results.length) {
+      const tmp = `${path}.tmp`;
+      await writeFile(tmp, results.map((result) => `${JSON.stringify(result)}\n`).join(''));
+      await rename(tmp, path);
+    }
+    return results;
+  }
+
+  /**
+   * Save the results finished since the last checkpoint
+   */
+  private async appendResults(
+    checkpoint: JobCheckpoint,
+    results: ValidationResult[]
+  ): Promise<void> {
+    if (results.length === 0) return;
+    const target = this.options.checkpoint;
+
+    if (typeof target === 'string') {
+      const data = results.map((result) => `${JSON.stringify(result)}\n`).join('');
+      await appendFile(this.getResultsPath(target), data);
+    } else {
+      const chunk = checkpoint.resultChunks ?? 0;
+      await target.set(
+        this.getResultsKey(chunk),
+        JSON.stringify(results),
+        this.options.checkpointTtl ?? DEFAULT_CHECKPOINT_TTL
+      );
+      checkpoint.resultChunks = chunk + 1;
+    }
+  }
+
+  /**
+   * Delete the results saved by run() (a file left behind by an earlier job too)
+   */
+  private async discardResults(previous: JobCheckpoint | null): Promise<void> {
+    const { checkpoint } = this.options;
+    if (typeof checkpoint === 'string') {
+      await unlink(this.getResultsPath(checkpoint)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    } else if (checkpoint.delete) {
+      for (let chunk = 0; chunk < (previous?.resultChunks ?? 0); chunk++) {
+        await checkpoint.delete(this.getResultsKey(chunk));
+      }
+    }
+  }
+
+  /**
+   * Delete the checkpoint and saved results, so the next run starts from the beginning
+   */
+  async reset(): Promise<void> {
+    const { checkpoint } = this.options;
+    await this.discardResults(await this.getCheckpoint());
+    if (typeof checkpoint === 'string') {
+      await unlink(checkpoint).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    } else {
+      await checkpoint.delete?.(this.cacheKey);
+    }
+  }
+
+  /**
+   * Validate all addresses, resuming from the checkpoint, and return every result
+   *
+   * @throws When earlier runs of the job went through stream(), whose results weren't saved
+   */
+  async run(emails: AsyncIterable<string> | Iterable<string>): Promise<JobResult> {
+    const results: ValidationResult[] = [];
+    const execution = this.execute(emails, results);
+    let next = await execution.next();
+    while (!next.done) {
+      next = await execution.next();
+    }
+
+    const checkpoint = next.value;
+    return {
+      status: checkpoint.status === 'completed' ? 'completed' : 'stopped',
+      cursor: checkpoint.cursor,
+      stopReason: checkpoint.stopReason,
+      results,
+    };
+  }
+
+  /**
+   * Yield results in input order, resuming from the checkpoint. Results aren't kept in the
+   * checkpoint, so write them out as they arrive. Check getCheckpoint() afterwards to tell a
+   * completed job from a stopped one.
+   */
+  async *stream(
+    emails: AsyncIterable<string> | Iterable<string>
+  ): AsyncGenerator<ValidationResult, void, undefined> {
+    yield* this.execute(emails, null);
+  }
+
+  private async *execute(
+    emails: AsyncIterable<string> | Iterable<string>,
+    results: ValidationResult[] | null
+  ): AsyncGenerator<ValidationResult, JobCheckpoint, undefined> {
+    const { checkpointEvery = DEFAULT_CHECKPOINT_EVERY, getState } = this.options;
+
+    const previous = await this.getCheckpoint();
+    const checkpoint: JobCheckpoint = {
+      version: CHECKPOINT_VERSION,
+      jobId: this.jobId,
+      status: 'running',
+      cursor: previous?.cursor ?? 0,
+      stopReason: null,
+      resultChunks: previous?.resultChunks,
+      updatedAt: new Date().toISOString(),
+    };
+    if (results) {
+      results.push(...(await this.loadResults(previous)));
+      if (results.length < checkpoint.cursor) {
+        throw new Error(
+          `Results of job "${this.jobId}" went through stream() and weren't saved, so run() can't return them; continue the job with stream(), or reset() it`
+        );
+      }
+    } else if (!previous) {
+      // Results saved by an earlier job would otherwise pass for this one's
+      await this.discardResults(null);
+    }
+    let savedResults = results?.length ?? 0;
+
+    const save = async (status: JobStatus, stopReason: string | null = null) => {
+      // Results first: a crash in between leaves extra results, which the next run drops
+      if (results) {
+        await this.appendResults(checkpoint, results.slice(savedResults));
+        savedResults = results.length;
+      }
+      checkpoint.status = status;
+      checkpoint.stopReason = stopReason;
+      checkpoint.state = getState?.();
+      checkpoint.updatedAt = new Date().toISOString();
+      await this.saveCheckpoint(checkpoint);
+    };
+
+    if (previous?.status === 'completed') {
+      checkpoint.status = 'completed';
+      return checkpoint;
+    }
+
+    // Job options pass through; the validator ignores the ones it doesn't know
+    const streamOptions: StreamValidationOptions = { ...this.options, ordered: true };
+    const domainChecks = createDomainCheckMemo(streamOptions);
+    let completed = false;
+    let stopReason: string | null = null;
+
+    try {
+      const stream = streamResults(
+        skip(emails, checkpoint.cursor),
+        streamOptions,
+        (email, options) => validateAddress(email, options, domainChecks.check, isQuotaError)
+      );
+
+      for await (const result of stream) {
+        checkpoint.cursor++;
+        results?.push(result);
+        yield result;
+
+        if (checkpoint.cursor % checkpointEvery === 0) {
+          await save('running');
+        }
+      }
+      completed = true;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      stopReason = (error as Error).message;
+    } finally {
+      // Also runs when an error propagates or the consumer stops iterating early
+      await save(completed ? 'completed' : stopReason ? 'stopped' : 'running', stopReason);
+    }
+
+    return checkpoint;
+  }
+}
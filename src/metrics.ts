@@ -0,0 +1,29 @@
+/**
+ * Process-wide Counters
+ *
+ * Counted where the work happens (API client, validator) so reports can diff a snapshot taken
+ * before a batch against one taken after it.
+ */
+
+export interface Metrics {
+  /** Requests sent to the Sniffmail verify endpoint */
+  apiCalls: number;
+  /** Verify requests that were retried after a timeout, 429 or 5xx */
+  apiRetries: number;
+  /** Validations that hit an unexpected error and failed open */
+  errors: number;
+}
+
+const metrics: Metrics = {
+  apiCalls: 0,
+  apiRetries: 0,
+  errors: 0,
+};
+
+export function incrementMetric(name: keyof Metrics): void {
+  metrics[name]++;
+}
+
+export function getMetrics(): Metrics {
+  return { ...metrics };
+}
@@ -0,0 +1,114 @@
+/**
+ * Provider-aware Address Normalization
+ *
+ * Maps aliases of the same mailbox to one canonical identity, so that
+ * `john.doe+1@gmail.com` and `johndoe+2@googlemail.com` both become `johndoe@gmail.com`.
+ * Applies per-provider rules for ignored dots, subaddress separators (`+`, Yahoo's `-`)
+ * and domain aliases. Addresses at unknown domains are only lowercased, since their
+ * local parts may legitimately contain those characters.
+ */
+
+import { domainToASCII } from 'url';
+
+interface ProviderRule {
+  /** Domains served by this provider */
+  domains: readonly string[];
+  /** Domain every alias maps to */
+  canonicalDomain: string;
+  /** Dots in the local part are ignored by the provider */
+  ignoreDots?: boolean;
+  /** Everything from the first of these characters on is a subaddress tag */
+  separators: readonly string[];
+}
+
+const PROVIDER_RULES: readonly ProviderRule[] = [
+  {
+    domains: ['gmail.com', 'googlemail.com'],
+    canonicalDomain: 'gmail.com',
+    ignoreDots: true,
+    separators: ['+'],
+  },
+  // Outlook, Fastmail and Yahoo domains are separate namespaces, not aliases of each other
+  ...['outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'fastmail.com', 'fastmail.fm'].map(
+    (domain) => ({
+      domains: [domain],
+      canonicalDomain: domain,
+      separators: ['+'],
+    })
+  ),
+  ...['yahoo.com', 'ymail.com', 'rocketmail.com'].map((domain) => ({
+    domains: [domain],
+    canonicalDomain: domain,
+    separators: ['-'],
+  })),
+  {
+    domains: ['icloud.com', 'me.com', 'mac.com'],
+    canonicalDomain: 'icloud.com',
+    separators: ['+'],
+  },
+  {
+    domains: ['proton.me', 'protonmail.com', 'protonmail.ch', 'pm.me'],
+    canonicalDomain: 'proton.me',
+    separators: ['+'],
+  },
+  {
+    domains: ['yandex.ru', 'yandex.com', 'yandex.ua', 'yandex.by', 'yandex.kz', 'ya.ru'],
+    canonicalDomain: 'yandex.ru',
+    separators: ['+'],
+  },
+];
+
+const RULES_BY_DOMAIN = new Map<string, ProviderRule>();
+for (const rule of PROVIDER_RULES) {
+  for (const domain of rule.domains) {
+    RULES_BY_DOMAIN.set(domain, rule);
+  }
+}
+
+export interface NormalizeOptions {
+  /** Also strip `+tag` subaddresses at domains without a provider rule (default: false) */
+  stripUnknownSubaddress?: boolean;
+}
+
+function stripTag(localPart: string, separators: readonly string[]): string {
+  let end = localPart.length;
+  for (const separator of separators) {
+    const index = localPart.indexOf(separator);
+    // A separator in first position is part of the name, not a tag
+    if (index > 0 && index < end) end = index;
+  }
+  return localPart.slice(0, end);
+}
+
+/**
+ * Get the canonical identity of an email address
+ *
+ * @example
+ * normalizeEmail('John.Doe+news@googlemail.com'); // 'johndoe@gmail.com'
+ * normalizeEmail('jane-shopping@yahoo.com'); // 'jane@yahoo.com'
+ * normalizeEmail('ops+alerts@company.com'); // 'ops+alerts@company.com'
+ */
+export function normalizeEmail(email: string, options: NormalizeOptions = {}): string {
+  const normalizedEmail = email.toLowerCase().trim();
+  const at = normalizedEmail.lastIndexOf('@');
+  if (at <= 0 || normalizedEmail.startsWith('"')) return normalizedEmail;
+
+  let localPart = normalizedEmail.slice(0, at);
+  const rawDomain = normalizedEmail.slice(at + 1);
+  const domain = domainToASCII(rawDomain) || rawDomain;
+  const rule = RULES_BY_DOMAIN.get(domain);
+
+  if (!rule) {
+    if (options.stripUnknownSubaddress) {
+      localPart = stripTag(localPart, ['+']);
+    }
+    return `${localPart}@${domain}`;
+  }
+
+  localPart = stripTag(localPart, rule.separators);
+  if (rule.ignoreDots) {
+    localPart = localPart.replace(/\./g, '');
+  }
+
+  return `${localPart}@${rule.canonicalDomain}`;
+}
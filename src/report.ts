@@ -0,0 +1,158 @@
+/**
+ * Validation Report
+ *
+ * Aggregates results from a batch or stream into counts per reason and per reachability
+ * status, the domains with the most invalid addresses, cache and API usage, errors and
+ * latency percentiles. Serializes to JSON (via toJSON) and to Markdown.
+ */
+
+import type {
+  ValidationResult,
+  ValidationReportData,
+  ValidationReason,
+  ReachableStatus,
+} from './types';
+import { getMetrics } from './metrics';
+import type { Metrics } from './metrics';
+
+const TOP_DOMAINS = 10;
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)]!;
+}
+
+function increment<K extends string>(counts: Partial<Record<K, number>>, key: K): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+function share(count: number, total: number): string {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '0.0%';
+}
+
+function getDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at > 0 && at < email.length - 1 ? email.slice(at + 1) : null;
+}
+
+export class ValidationReport {
+  private total = 0;
+  private valid = 0;
+  private cacheHits = 0;
+  private byReason: Partial<Record<Exclude<ValidationReason, null>, number>> = {};
+  private byStatus: Partial<Record<ReachableStatus, number>> = {};
+  private domains = new Map<string, { invalid: number; total: number }>();
+  private latencies: number[] = [];
+  // API calls and errors are counted from the moment the report is created
+  private readonly createdAt = Date.now();
+  private finishedAt: number | null = null;
+  private readonly baseline: Metrics = getMetrics();
+
+  /**
+   * Add a result to the report
+   *
+   * @param latencyMs - Time the validation took; omit for results that reused another's
+   */
+  record(result: ValidationResult, latencyMs?: number): void {
+    this.finishedAt = Date.now();
+
+    this.total++;
+    if (result.valid) this.valid++;
+    if (result.cached) this.cacheHits++;
+    if (result.reason) increment(this.byReason, result.reason);
+    increment(this.byStatus, result.smtp?.is_reachable ?? 'unverified');
+    if (latencyMs !== undefined) this.latencies.push(latencyMs);
+
+    const domain = getDomain(result.email);
+    if (domain) {
+      const entry = this.domains.get(domain) ?? { invalid: 0, total: 0 };
+      entry.total++;
+      if (!result.valid) entry.invalid++;
+      this.domains.set(domain, entry);
+    }
+  }
+
+  toJSON(): ValidationReportData {
+    const metrics = getMetrics();
+    const latencies = [...this.latencies].sort((a, b) => a - b);
+
+    const topDomains = [...this.domains]
+      .filter(([, entry]) => entry.invalid > 0)
+      .map(([domain, entry]) => ({ domain, ...entry }))
+      .sort((a, b) => b.invalid - a.invalid || b.total - a.total)
+      .slice(0, TOP_DOMAINS);
+
+    return {
+      total: this.total,
+      valid: this.valid,
+      invalid: this.total - this.valid,
+      byReason: { ...this.byReason },
+      byStatus: { ...this.byStatus },
+      topDomains,
+      cacheHits: this.cacheHits,
+      cacheHitRatio: this.total > 0 ? this.cacheHits / this.total : 0,
+      apiCalls: metrics.apiCalls - this.baseline.apiCalls,
+      errors: metrics.errors - this.baseline.errors,
+      latency: {
+        p50: percentile(latencies, 50),
+        p95: percentile(latencies, 95),
+        max: latencies[latencies.length - 1] ?? 0,
+      },
+      durationMs: this.finishedAt !== null ? this.finishedAt - this.createdAt : 0,
+    };
+  }
+
+  toMarkdown(): string {
+    const data = this.toJSON();
+    const ms = (value: number) => `${Math.round(value)} ms`;
+    const lines = [
+      '## Validation report',
+      '',
+      '| Metric | Value |',
+      '|--------|-------|',
+      `| Total | ${data.total} |`,
+      `| Valid | ${data.valid} (${share(data.valid, data.total)}) |`,
+      `| Invalid | ${data.invalid} (${share(data.invalid, data.total)}) |`,
+      `| Cache hits | ${data.cacheHits} (${share(data.cacheHits, data.total)}) |`,
+      `| API calls | ${data.apiCalls} |`,
+      `| Errors | ${data.errors} |`,
+      `| Latency p50 / p95 / max | ${ms(data.latency.p50)} / ${ms(data.latency.p95)} / ${ms(data.latency.max)} |`,
+      `| Duration | ${ms(data.durationMs)} |`,
+    ];
+
+    const reasons = Object.entries(data.byReason).sort(([, a], [, b]) => b - a);
+    if (reasons.length > 0) {
+      lines.push('', '### By reason', '', '| Reason | Count |', '|--------|-------|');
+      for (const [reason, count] of reasons) {
+        lines.push(`| \`${reason}\` | ${count} (${share(count, data.total)}) |`);
+      }
+    }
+
+    const statuses = Object.entries(data.byStatus).sort(([, a], [, b]) => b - a);
+    if (statuses.length > 0) {
+      lines.push('', '### By status', '', '| Status | Count |', '|--------|-------|');
+      for (const [status, count] of statuses) {
+        lines.push(`| \`${status}\` | ${count} (${share(count, data.total)}) |`);
+      }
+    }
+
+    if (data.topDomains.length > 0) {
+      lines.push(
+        '',
+        '### Top domains',
+        '',
+        '| Domain | Invalid | Total |',
+        '|--------|---------|-------|'
+      );
+      for (const { domain, invalid, total } of data.topDomains) {
+        lines.push(`| ${domain} | ${invalid} | ${total} |`);
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
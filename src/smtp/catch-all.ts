@@ -0,0 +1,23 @@
+/**
+ * Catch-all Domain Memo
+ *
+ * Remembers whether a domain accepts mail for any local part, as found by the SMTP probe's
+ * random-address check, through the configured CacheStore (`cache.domainTtl.catchAll`).
+ * Later addresses on a known catch-all domain are marked `catch_all` without another
+ * mailbox probe or API call.
+ */
+
+import { getDomainTtl } from '../config';
+import { getDomainFact, setDomainFact } from '../cache';
+
+/**
+ * Get the remembered catch-all verdict for a domain, or null when unknown
+ */
+export async function getCatchAll(domain: string): Promise<boolean | null> {
+  const cached = await getDomainFact('catchAll', domain);
+  return cached === null ? null : cached === 'true';
+}
+
+export async function setCatchAll(domain: string, catchAll: boolean): Promise<void> {
+  await setDomainFact('catchAll', domain, String(catchAll), getDomainTtl('catchAll'));
+}
@@ -0,0 +1,385 @@
+/**
+ * Self-hosted SMTP Mailbox Probe
+ *
+ * Verifies a mailbox without the Sniffmail API: connects to the domain's MX host,
+ * sends EHLO, upgrades with STARTTLS when offered, then MAIL FROM and RCPT TO, and
+ * QUITs without ever sending DATA. The RCPT TO reply decides the verdict:
+ *
+ * - 250 / 251 — mailbox exists (safe)
+ * - 550 / 551 / 553 — mailbox not found, or disabled when the server says so (invalid)
+ * - 552 / 452 — mailbox full (risky)
+ * - 450 and other 4xx — temporary failure, e.g. greylisting (unknown)
+ *
+ * When the address is accepted, a random local part that surely doesn't exist is tried in the
+ * same session: if the server accepts that too, the domain is catch-all and the verdict is risky.
+ *
+ * Session-level failures (connection refused, banner or MAIL FROM rejected) throw an
+ * SmtpError, since they say nothing about the mailbox.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import type { SmtpResult, ValidationReason, SmtpConfig } from '../types';
+import { getConfig } from '../config';
+
+const DEFAULT_PORT = 25;
+const DEFAULT_TIMEOUT = 10000; // 10 seconds
+
+export interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+export interface SmtpProbeResult {
+  smtp: SmtpResult;
+  valid: boolean;
+  reason: ValidationReason;
+  /** MX host that answered */
+  host: string;
+  /** RCPT TO reply */
+  reply: SmtpReply;
+  /** Domain accepts any local part, or null when this session couldn't tell */
+  catchAll: boolean | null;
+}
+
+export interface SmtpProbeOptions extends SmtpConfig {
+  /** Also RCPT a random local part to detect catch-all domains (default: true) */
+  detectCatchAll?: boolean;
+}
+
+interface SessionReplies {
+  reply: SmtpReply;
+  catchAllReply: SmtpReply | null;
+}
+
+export class SmtpError extends Error {
+  public reply?: SmtpReply;
+
+  constructor(message: string, reply?: SmtpReply) {
+    super(message);
+    this.name = 'SmtpError';
+    this.reply = reply;
+  }
+}
+
+/**
+ * Line-oriented SMTP session over a plain or TLS socket
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    socket: net.Socket,
+    private readonly timeout: number
+  ) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static connect(host: string, port: number, timeout: number): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new SmtpError(`Connection to ${host}:${port} timed out`));
+      }, timeout);
+
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        resolve(new SmtpSession(socket, timeout));
+      });
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(new SmtpError(`Could not connect to ${host}:${port}: ${error.message}`));
+      });
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) =>
+      this.fail(new SmtpError(`SMTP connection error: ${error.message}`))
+    );
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (!/^\d{3}-/.test(line)) {
+        const code = parseInt(line.slice(0, 3), 10);
+        const message = this.lines.map((l) => l.slice(4)).join('\n');
+        this.lines = [];
+        this.push({ code: Number.isNaN(code) ? 0 : code, message });
+      }
+    }
+  }
+
+  private push(reply: SmtpReply): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        reject(new SmtpError('SMTP reply timed out'));
+      }, this.timeout);
+
+      this.waiter = {
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  async command(line: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  /**
+   * Upgrade the connection to TLS after a successful STARTTLS
+   */
+  startTls(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    this.buffer = '';
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({
+        socket: plain,
+        servername: net.isIP(servername) ? undefined : servername,
+        // MX certificates rarely match their hostnames; encryption is what matters here
+        rejectUnauthorized: false,
+      });
+      // A server that stalls mid-handshake would otherwise hang the probe
+      const timer = setTimeout(() => {
+        secure.destroy();
+        plain.destroy();
+        reject(new SmtpError('TLS handshake timed out'));
+      }, this.timeout);
+
+      const onError = (error: Error) => {
+        clearTimeout(timer);
+        reject(new SmtpError(`TLS handshake failed: ${error.message}`));
+      };
+      secure.once('secureConnect', () => {
+        clearTimeout(timer);
+        secure.removeListener('error', onError);
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+      secure.once('error', onError);
+    });
+  }
+
+  async quit(): Promise<void> {
+    try {
+      this.socket.write('QUIT\r\n');
+    } catch {
+      // already closed
+    }
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function expect(reply: SmtpReply, stage: string): void {
+  if (reply.code < 200 || reply.code >= 400) {
+    throw new SmtpError(`${stage} rejected: ${reply.code} ${reply.message}`, reply);
+  }
+}
+
+function isAccepted(reply: SmtpReply): boolean {
+  return reply.code === 250 || reply.code === 251;
+}
+
+/**
+ * Map the RCPT TO reply onto a verdict
+ *
+ * @param catchAll - Whether the domain accepts any local part, if known
+ */
+export function classifyRcptReply(
+  reply: SmtpReply,
+  catchAll: boolean | null = null
+): Omit<SmtpProbeResult, 'host' | 'reply' | 'catchAll'> {
+  const { code, message } = reply;
+  const text = message.toLowerCase();
+  const smtp = (is_reachable: SmtpResult['is_reachable'], is_deliverable: boolean): SmtpResult => ({
+    is_reachable,
+    can_connect: true,
+    is_deliverable,
+    is_catch_all: catchAll === true,
+  });
+
+  if (isAccepted(reply)) {
+    // A catch-all domain accepts every address, so acceptance proves nothing
+    if (catchAll) {
+      return { smtp: smtp('risky', true), valid: false, reason: 'catch_all' };
+    }
+    return { smtp: smtp('safe', true), valid: true, reason: null };
+  }
+
+  if (code === 552 || code === 452 || /mailbox (is )?full|over quota|quota exceeded/.test(text)) {
+    return { smtp: smtp('risky', false), valid: false, reason: 'mailbox_full' };
+  }
+
+  if (code >= 500) {
+    if (/disabled|deactivated|inactive|suspended|locked/.test(text)) {
+      return { smtp: smtp('invalid', false), valid: false, reason: 'mailbox_disabled' };
+    }
+    if (code === 550 || code === 551 || code === 553) {
+      return { smtp: smtp('invalid', false), valid: false, reason: 'mailbox_not_found' };
+    }
+    return { smtp: smtp('unknown', false), valid: false, reason: 'smtp_error' };
+  }
+
+  // 450, 451 and other temporary failures (greylisting, rate limits)
+  return { smtp: smtp('unknown', false), valid: true, reason: null };
+}
+
+/**
+ * Catch-all verdict from the reply to the random local part
+ */
+function getCatchAllVerdict(replies: SessionReplies): boolean | null {
+  const { reply, catchAllReply } = replies;
+  // A rejected address proves the domain checks recipients
+  if (reply.code >= 500) return false;
+  if (!catchAllReply) return null;
+  if (isAccepted(catchAllReply)) return true;
+  return catchAllReply.code >= 500 ? false : null;
+}
+
+/**
+ * Run one EHLO / STARTTLS / MAIL FROM / RCPT TO session against a host
+ */
+async function probeHost(
+  email: string,
+  host: string,
+  config: SmtpProbeOptions
+): Promise<SessionReplies> {
+  const {
+    detectCatchAll = true,
+    port = DEFAULT_PORT,
+    timeout = DEFAULT_TIMEOUT,
+    heloHost = hostname(),
+    mailFrom = `verify@${heloHost}`,
+    startTls = true,
+  } = config;
+
+  const session = await SmtpSession.connect(host, port, timeout);
+  try {
+    expect(await session.read(), 'Greeting');
+
+    let ehlo = await session.command(`EHLO ${heloHost}`);
+    if (ehlo.code !== 250) {
+      ehlo = await session.command(`HELO ${heloHost}`);
+    }
+    expect(ehlo, 'EHLO');
+
+    if (startTls && /^STARTTLS$/im.test(ehlo.message)) {
+      const reply = await session.command('STARTTLS');
+      if (reply.code === 220) {
+        await session.startTls(host);
+        expect(await session.command(`EHLO ${heloHost}`), 'EHLO');
+      }
+    }
+
+    expect(await session.command(`MAIL FROM:<${mailFrom}>`), 'MAIL FROM');
+    const reply = await session.command(`RCPT TO:<${email}>`);
+
+    let catchAllReply: SmtpReply | null = null;
+    if (detectCatchAll && isAccepted(reply)) {
+      const domain = email.slice(email.lastIndexOf('@') + 1);
+      catchAllReply = await session.command(
+        `RCPT TO:<${randomBytes(12).toString('hex')}@${domain}>`
+      );
+    }
+
+    return { reply, catchAllReply };
+  } finally {
+    await session.quit();
+  }
+}
+
+/**
+ * Probe a mailbox over SMTP, trying MX hosts in order until one answers
+ *
+ * @param email - Address to verify
+ * @param hosts - MX hosts, highest priority first
+ * @throws SmtpError when no host could be reached or the session was rejected
+ */
+export async function probeMailbox(
+  email: string,
+  hosts: string[],
+  options: SmtpProbeOptions = {}
+): Promise<SmtpProbeResult> {
+  const config = { ...getConfig().smtp, ...options };
+  let lastError: Error = new SmtpError('No MX hosts to probe');
+
+  for (const host of hosts) {
+    try {
+      const replies = await probeHost(email, host, config);
+      const catchAll = getCatchAllVerdict(replies);
+      return {
+        ...classifyRcptReply(replies.reply, catchAll),
+        host,
+        reply: replies.reply,
+        catchAll,
+      };
+    } catch (error) {
+      lastError = error as Error;
+      // A permanent (5xx) session rejection holds for every MX; a transient one (e.g. 421 at
+      // the greeting) means this host is busy, so try the next
+      if (error instanceof SmtpError && error.reply && error.reply.code >= 500) break;
+    }
+  }
+
+  throw lastError;
+}
@@ -1,37 +1,49 @@
 /**
  * DeBounce API Integration
  *
- * Free unlimited API for real-time disposable email detection.
+ * Free unlimited API for real-time disposable email detection. Answers are cached per
+ * domain through the configured CacheStore (`cache.domainTtl.debounce`).
  * @see https://debounce.com/free-disposable-check-api/
  */
 
-const DEBOUNCE_API_URL = 'https://disposable.debounce.io/';
+import type { DomainSource, ErrorPolicy } from '../types';
+import { getBaseUrl, getDomainTtl, getErrorPolicy } from '../config';
+import { getDomainFact, setDomainFact } from '../cache';
+import { httpRequest } from '../http';
 
-// Cache for DeBounce API results
-const debounceCache = new Map<string, { disposable: boolean; expiresAt: number }>();
-const DEBOUNCE_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+// Answers fetched from DeBounce by this process
+let lookups = 0;
+
+export interface DeBounceOptions {
+  /**
+   * What a failed lookup returns: `open` — not disposable, `closed` — disposable,
+   * `throw` — the error (default: config.onError, then 'open')
+   */
+  onError?: ErrorPolicy;
+}
 
 /**
  * Check domain against DeBounce free API
  */
-export async function checkDeBounceAPI(email: string): Promise<boolean> {
+export async function checkDeBounceAPI(
+  email: string,
+  options: DeBounceOptions = {}
+): Promise<boolean> {
+  const { onError = getErrorPolicy() } = options;
   const domain = email.split('@')[1]?.toLowerCase();
   if (!domain) return false;
 
   // Check cache first
-  const cached = debounceCache.get(domain);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.disposable;
+  const cached = await getDomainFact('debounce', domain);
+  if (cached !== null) {
+    return cached === 'true';
   }
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 3000);
-
-    const response = await fetch(`${DEBOUNCE_API_URL}?email=${encodeURIComponent(email)}`, {
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
+    const response = await httpRequest(
+      'debounce',
+      `${getBaseUrl('debounce')}/?email=${encodeURIComponent(email)}`
+    );
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
@@ -41,26 +53,47 @@ export async function checkDeBounceAPI(email: string): Promise<boolean> {
     const isDisposable = data.disposable === 'true';
 
     // Cache result
-    debounceCache.set(domain, {
-      disposable: isDisposable,
-      expiresAt: Date.now() + DEBOUNCE_CACHE_TTL,
-    });
+    lookups++;
+    await setDomainFact('debounce', domain, String(isDisposable), getDomainTtl('debounce'));
 
     return isDisposable;
   } catch (error: any) {
-    // On timeout or error, fail open
+    if (onError === 'throw') {
+      throw error;
+    }
+    // On timeout or error, fail open or closed; the result isn't cached either way
     console.error(`[DeBounce API] Error for ${domain}:`, error.message);
-    return false;
+    return onError === 'closed';
   }
 }
 
 /**
- * Get cache stats
+ * Get DeBounce stats. Answers are cached in the configured CacheStore, where they're
+ * shared with other processes and can't be counted from here.
  */
 export function getDebounceCacheStats(): {
+  /** Answers fetched from DeBounce (and cached) by this process */
+  lookups: number;
+  /** @deprecated Same as `lookups`; cached answers live in the CacheStore now */
   size: number;
 } {
   return {
-    size: debounceCache.size,
+    lookups,
+    size: lookups,
   };
 }
+
+/**
+ * Registry entry — remote, so only consulted by validateEmail()
+ */
+export const debounceSource: DomainSource = {
+  name: 'debounce',
+  remote: true,
+  // Errors propagate so validateEmail can apply its own onError policy and mark the result
+  has: (domain, email) => checkDeBounceAPI(email ?? `test@${domain}`, { onError: 'throw' }),
+  stats: () => ({
+    count: lookups,
+    loaded: true,
+    lastLoad: 0,
+  }),
+};
@@ -8,6 +8,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { DomainSource } from '../types';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -48,10 +49,6 @@ async function loadDiscoveredDomains(): Promise<void> {
  * Check if a domain was discovered by the scraper
  */
 export function isDiscoveredDomain(domain: string): boolean {
-  if (Date.now() - lastLoadTime > RELOAD_INTERVAL) {
-    loadDiscoveredDomains();
-  }
-
   return discoveredDomains.has(domain.toLowerCase());
 }
 
@@ -135,5 +132,17 @@ export function getDiscoveredDomainsStats(): {
   };
 }
 
-// Initialize on module load
-loadDiscoveredDomains();
+/**
+ * Registry entry — reloaded from disk by the source registry every hour
+ */
+export const discoveredDomainsSource: DomainSource = {
+  name: 'discovered-domains',
+  refreshInterval: RELOAD_INTERVAL,
+  load: loadDiscoveredDomains,
+  has: isDiscoveredDomain,
+  stats: () => ({
+    count: discoveredDomains.size,
+    loaded: lastLoadTime > 0,
+    lastLoad: lastLoadTime,
+  }),
+};
@@ -5,8 +5,9 @@
  * @see https://github.com/disposable/disposable-email-domains
  */
 
-const GITHUB_BLOCKLIST_URL =
-  'https://raw.githubusercontent.com/disposable/disposable-email-domains/master/domains_strict.txt';
+import type { DomainSource } from '../types';
+import { getBaseUrl } from '../config';
+import { httpRequest } from '../http';
 
 let githubBlocklist: Set<string> = new Set();
 let blocklistLoaded = false;
@@ -19,7 +20,7 @@ const BLOCKLIST_REFRESH_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
 export async function fetchGitHubBlocklist(): Promise<void> {
   try {
     console.log('[GitHub Blocklist] Fetching disposable email blocklist...');
-    const response = await fetch(GITHUB_BLOCKLIST_URL);
+    const response = await httpRequest('githubBlocklist', getBaseUrl('githubBlocklist'));
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
@@ -45,11 +46,6 @@ export async function fetchGitHubBlocklist(): Promise<void> {
  * Check if domain is in the GitHub blocklist
  */
 export function isInGitHubBlocklist(domain: string): boolean {
-  // Refresh blocklist if stale
-  if (blocklistLoaded && Date.now() - blocklistLastFetch > BLOCKLIST_REFRESH_INTERVAL) {
-    fetchGitHubBlocklist();
-  }
-
   const normalizedDomain = domain.toLowerCase();
 
   // Check exact match
@@ -84,5 +80,18 @@ export function getGitHubBlocklistStats(): {
   };
 }
 
-// Initialize on module load
-fetchGitHubBlocklist();
+/**
+ * Registry entry — refreshed by the source registry every 24 hours
+ */
+export const githubBlocklistSource: DomainSource = {
+  name: 'github-blocklist',
+  refreshInterval: BLOCKLIST_REFRESH_INTERVAL,
+  requiresNetwork: true,
+  load: fetchGitHubBlocklist,
+  has: isInGitHubBlocklist,
+  stats: () => ({
+    count: githubBlocklist.size,
+    loaded: blocklistLoaded,
+    lastLoad: blocklistLastFetch,
+  }),
+};
@@ -0,0 +1,77 @@
+/**
+ * Local Snapshot Files
+ *
+ * Builds a disposable domain source from blocklist files on disk, for offline
+ * and air-gapped deployments. Accepts plain text (one domain per line, `#` comments)
+ * or JSON (an array of domains, or `{ "domains": [...] }` like discovered-domains.json).
+ */
+
+import { promises as fs } from 'fs';
+import type { DomainSource } from '../types';
+
+function parseSnapshot(contents: string): string[] {
+  const trimmed = contents.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const domains: unknown = Array.isArray(parsed) ? parsed : parsed.domains;
+    if (!Array.isArray(domains)) {
+      throw new Error('JSON snapshot must be an array or have a "domains" array');
+    }
+    return domains.map((d) => String(d).trim().toLowerCase()).filter(Boolean);
+  }
+
+  return trimmed
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Create a source backed by one or more local snapshot files
+ *
+ * @param files - Path or paths to snapshot files
+ * @param name - Source name reported on matches (default: 'local-files')
+ *
+ * @example
+ * configure({
+ *   offline: true,
+ *   sources: [...defaultSources, createFileSource('/etc/sniffmail/domains_strict.txt')],
+ * });
+ */
+export function createFileSource(files: string | string[], name = 'local-files'): DomainSource {
+  const paths = Array.isArray(files) ? files : [files];
+  let domains: Set<string> = new Set();
+  let lastLoad = 0;
+
+  return {
+    name,
+    async load() {
+      const loaded = new Set<string>();
+      for (const file of paths) {
+        const contents = await fs.readFile(file, 'utf-8');
+        for (const domain of parseSnapshot(contents)) {
+          loaded.add(domain);
+        }
+      }
+      domains = loaded;
+      lastLoad = Date.now();
+      console.log(`[Local Files] Loaded ${domains.size} domains for ${name}`);
+    },
+    has(domain) {
+      // Check exact match, then parent domains (mail.tempmail.com -> tempmail.com)
+      const parts = domain.toLowerCase().split('.');
+      for (let i = 0; i < parts.length - 1; i++) {
+        if (domains.has(parts.slice(i).join('.'))) {
+          return true;
+        }
+      }
+      return false;
+    },
+    stats: () => ({
+      count: domains.size,
+      loaded: lastLoad > 0,
+      lastLoad,
+    }),
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Allowlist / Denylist Overrides
+ *
+ * User-supplied domain rules that take precedence over every disposable source.
+ * The allowlist always wins: an allowlisted domain is never reported as disposable,
+ * even when the denylist or a blocklist also matches it.
+ *
+ * Supported patterns:
+ * - `example.com` — exact domain
+ * - `*.example.com` — any subdomain of example.com (not the apex itself)
+ * - `/^mail\d+\.example\.com$/i` — regular expression, tested against the whole domain
+ */
+
+import defaultAllowlist from '../data/default-allowlist.json';
+import { getConfig } from '../config';
+
+export type DomainOverride = 'allow' | 'deny';
+
+interface CompiledPatterns {
+  exact: Set<string>;
+  suffixes: string[];
+  regexes: RegExp[];
+}
+
+const compiledCache = new WeakMap<readonly string[], CompiledPatterns>();
+
+const DEFAULT_ALLOWLIST: readonly string[] = defaultAllowlist.domains;
+
+/**
+ * Compile a list of patterns, memoized per list instance
+ */
+function compilePatterns(patterns: readonly string[]): CompiledPatterns {
+  const cached = compiledCache.get(patterns);
+  if (cached) return cached;
+
+  const compiled: CompiledPatterns = { exact: new Set(), suffixes: [], regexes: [] };
+
+  for (const raw of patterns) {
+    const pattern = raw.trim();
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+
+    if (regexMatch) {
+      try {
+        // Without g and y: they make test() resume from lastIndex, so lookups would alternate
+        compiled.regexes.push(new RegExp(regexMatch[1]!, regexMatch[2]!.replace(/[gy]/g, '')));
+      } catch (error) {
+        console.error(`[Overrides] Invalid pattern ${pattern}:`, (error as Error).message);
+      }
+    } else if (pattern.startsWith('*.')) {
+      compiled.suffixes.push(pattern.slice(1).toLowerCase());
+    } else if (pattern) {
+      compiled.exact.add(pattern.toLowerCase());
+    }
+  }
+
+  compiledCache.set(patterns, compiled);
+  return compiled;
+}
+
+/**
+ * Check a domain against a list of patterns
+ */
+export function matchesDomainPattern(domain: string, patterns: readonly string[]): boolean {
+  const normalizedDomain = domain.toLowerCase();
+  const { exact, suffixes, regexes } = compilePatterns(patterns);
+
+  return (
+    exact.has(normalizedDomain) ||
+    suffixes.some((suffix) => normalizedDomain.endsWith(suffix)) ||
+    regexes.some((regex) => regex.test(normalizedDomain))
+  );
+}
+
+/**
+ * Get the default allowlist of privacy and forwarding services
+ */
+export function getDefaultAllowlist(): readonly string[] {
+  return DEFAULT_ALLOWLIST;
+}
+
+/**
+ * Check if a domain is allowlisted (user allowlist or the default allowlist)
+ */
+export function isAllowlisted(domain: string): boolean {
+  const config = getConfig();
+
+  if (config.defaultAllowlist !== false && matchesDomainPattern(domain, DEFAULT_ALLOWLIST)) {
+    return true;
+  }
+
+  return !!config.allowlist && matchesDomainPattern(domain, config.allowlist);
+}
+
+/**
+ * Check if a domain is on the user denylist
+ */
+export function isDenylisted(domain: string): boolean {
+  const { denylist } = getConfig();
+  return !!denylist && matchesDomainPattern(domain, denylist);
+}
+
+/**
+ * Resolve the override for a domain; the allowlist beats the denylist
+ */
+export function getDomainOverride(domain: string): DomainOverride | null {
+  if (isAllowlisted(domain)) return 'allow';
+  if (isDenylisted(domain)) return 'deny';
+  return null;
+}
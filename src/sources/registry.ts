@@ -0,0 +1,172 @@
+/**
+ * Disposable Domain Source Registry
+ *
+ * Ordered list of sources consulted by isDisposableDomain() and validateEmail().
+ * Defaults to the built-in sources; configure({ sources }) replaces the list.
+ * The registry owns loading and the refresh policy of every source. Sources are
+ * loaded lazily on first use, never at import time. In offline mode, remote sources
+ * and sources whose load() needs the network are left out.
+ */
+
+import type { DomainSource, DomainSourceStats } from '../types';
+import { getConfig, getDomainTtl, isOffline } from '../config';
+import { getDomainFact, setDomainFact } from '../cache';
+import { githubBlocklistSource } from './github-blocklist';
+import { scrapedDomainsSource } from './scraped-domains';
+import { discoveredDomainsSource } from './discovered-domains';
+import { debounceSource } from './debounce-api';
+
+export const defaultSources: readonly DomainSource[] = [
+  discoveredDomainsSource,
+  scrapedDomainsSource,
+  githubBlocklistSource,
+  debounceSource,
+];
+
+interface SourceState {
+  lastLoad: number;
+  loaded: boolean;
+  loading: Promise<void> | null;
+}
+
+const sourceState = new WeakMap<DomainSource, SourceState>();
+
+/**
+ * Get the active sources, in lookup order
+ */
+export function getSources(): readonly DomainSource[] {
+  return getConfig().sources ?? defaultSources;
+}
+
+function isUsable(source: DomainSource): boolean {
+  return !isOffline() || !(source.remote || source.requiresNetwork);
+}
+
+/**
+ * Load a source if it was never loaded or its refresh interval elapsed.
+ * Loads run in the background; concurrent calls share the same load.
+ */
+function refreshSource(source: DomainSource): Promise<void> {
+  if (!source.load || !isUsable(source)) return Promise.resolve();
+
+  let state = sourceState.get(source);
+  if (!state) {
+    state = { lastLoad: 0, loaded: false, loading: null };
+    sourceState.set(source, state);
+  }
+  if (state.loading) return state.loading;
+
+  const stale =
+    state.lastLoad === 0 ||
+    (!!source.refreshInterval && Date.now() - state.lastLoad > source.refreshInterval);
+  if (!stale) return Promise.resolve();
+
+  const current = state;
+  current.lastLoad = Date.now();
+  current.loading = source
+    .load()
+    .then(() => {
+      current.loaded = true;
+    })
+    .catch((error: Error) => {
+      console.error(`[Sources] Failed to load ${source.name}:`, error.message);
+    })
+    .finally(() => {
+      current.loading = null;
+    });
+  return current.loading;
+}
+
+/**
+ * Load (or refresh) every active source and wait for it to finish
+ */
+export async function loadSources(): Promise<void> {
+  await Promise.all(getSources().map(refreshSource));
+}
+
+/**
+ * Wait for sources that were never loaded; stale sources refresh in the background
+ */
+export async function ensureSourcesLoaded(): Promise<void> {
+  const initialLoads: Promise<void>[] = [];
+  for (const source of getSources()) {
+    const neverLoaded = !sourceState.get(source)?.loaded;
+    const loading = refreshSource(source);
+    if (neverLoaded) initialLoads.push(loading);
+  }
+  await Promise.all(initialLoads);
+}
+
+/**
+ * Find the first local source listing the domain
+ *
+ * @returns The matching source name, or null
+ * @throws When a local source's has() returns a Promise
+ */
+export function findLocalSource(domain: string): string | null {
+  const normalizedDomain = domain.toLowerCase();
+  for (const source of getSources()) {
+    if (source.remote) continue;
+    refreshSource(source);
+    const match = source.has(normalizedDomain);
+    if (match instanceof Promise) {
+      throw new Error(
+        `Source "${source.name}" returned a Promise from has(); mark sources with async lookups remote: true`
+      );
+    }
+    if (match) {
+      return source.name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the first remote source flagging the domain
+ *
+ * The verdict, negative ones included, is cached per domain through the configured
+ * CacheStore (`cache.domainTtl.disposable`). Verdicts with sources skipped aren't cached,
+ * since they don't speak for every source.
+ *
+ * @param skip - Source names to leave out (e.g. 'debounce' when useDeBounce is false)
+ * @returns The matching source name, or null
+ */
+export async function findRemoteSource(
+  domain: string,
+  email: string,
+  skip: string[] = []
+): Promise<string | null> {
+  const normalizedDomain = domain.toLowerCase();
+  const cacheable = skip.length === 0;
+  if (cacheable) {
+    const cached = await getDomainFact('disposable', normalizedDomain);
+    if (cached !== null) return cached || null;
+  }
+
+  let match: string | null = null;
+  for (const source of getSources()) {
+    if (!source.remote || skip.includes(source.name) || !isUsable(source)) continue;
+    refreshSource(source);
+    if (await source.has(normalizedDomain, email)) {
+      match = source.name;
+      break;
+    }
+  }
+
+  if (cacheable) {
+    // An empty string records "not disposable"
+    await setDomainFact('disposable', normalizedDomain, match ?? '', getDomainTtl('disposable'));
+  }
+  return match;
+}
+
+/**
+ * Get stats for every active source, keyed by name
+ */
+export function getSourceStats(): Record<string, DomainSourceStats | null> {
+  const stats: Record<string, DomainSourceStats | null> = {};
+  for (const source of getSources()) {
+    stats[source.name] = source.stats?.() ?? null;
+  }
+  return stats;
+}
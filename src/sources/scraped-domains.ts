@@ -5,6 +5,10 @@
  * @see https://deviceandbrowserinfo.com/data/emails/providers
  */
 
+import type { DomainSource } from '../types';
+import { getBaseUrl } from '../config';
+import { httpRequest } from '../http';
+
 // Providers to scrape
 const SCRAPED_PROVIDERS = [
   { name: 'temp-mail.org', slug: 'temp-mail-org' },
@@ -53,18 +57,13 @@ const FALLBACK_DOMAINS_SET = new Set(FALLBACK_TEMP_MAIL_DOMAINS);
  * Scrape domains from a single provider page
  */
 async function scrapeProviderDomains(slug: string, providerName: string): Promise<string[]> {
-  const url = `https://deviceandbrowserinfo.com/data/emails/providers/details/${slug}`;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000);
+  const url = `${getBaseUrl('scrapedDomains')}/data/emails/providers/details/${slug}`;
 
-  const response = await fetch(url, {
-    signal: controller.signal,
+  const response = await httpRequest('scrapedDomains', url, {
     headers: {
       'User-Agent': 'Mozilla/5.0 (compatible; BurnerEmailValidator/1.0)',
     },
   });
-  clearTimeout(timeoutId);
 
   if (!response.ok) {
     throw new Error(`HTTP ${response.status} for ${providerName}`);
@@ -157,10 +156,6 @@ export async function fetchScrapedDomains(): Promise<void> {
  * Check if domain is in the scraped blocklist
  */
 export function isInScrapedBlocklist(domain: string): boolean {
-  if (scrapedDomainsLoaded && Date.now() - scrapedDomainsLastFetch > BLOCKLIST_REFRESH_INTERVAL) {
-    fetchScrapedDomains();
-  }
-
   const normalizedDomain = domain.toLowerCase();
   return scrapedDomains.has(normalizedDomain) || FALLBACK_DOMAINS_SET.has(normalizedDomain);
 }
@@ -180,5 +175,18 @@ export function getScrapedDomainsStats(): {
   };
 }
 
-// Initialize on module load
-fetchScrapedDomains();
+/**
+ * Registry entry — refreshed by the source registry every 24 hours
+ */
+export const scrapedDomainsSource: DomainSource = {
+  name: 'scraped-domains',
+  refreshInterval: BLOCKLIST_REFRESH_INTERVAL,
+  requiresNetwork: true,
+  load: fetchScrapedDomains,
+  has: isInScrapedBlocklist,
+  stats: () => ({
+    count: scrapedDomains.size,
+    loaded: scrapedDomainsLoaded,
+    lastLoad: scrapedDomainsLastFetch,
+  }),
+};
@@ -0,0 +1,201 @@
+/**
+ * RFC 5321 / 5322 Address Parser
+ *
+ * Parses an address into its local part and domain and reports a precise error code
+ * when it is malformed. Implements:
+ *
+ * - Length limits: 64 octets for the local part, 253 for the domain, 254 in total
+ * - Dot-atom local parts (no leading, trailing or consecutive dots)
+ * - Quoted-string local parts (`"john doe"@example.com`), behind an option
+ * - Domain literals (`user@[192.0.2.1]`, `user@[IPv6:2001:db8::1]`), behind an option
+ * - Internationalized addresses (RFC 6531): UTF-8 local parts are flagged as SMTPUTF8,
+ *   Unicode domains are converted to Punycode for DNS and blocklist lookups
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import { domainToASCII, domainToUnicode } from 'url';
+import type { SyntaxErrorCode } from './types';
+
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LABEL_LENGTH = 63;
+
+// RFC 5322 atext, plus any non-ASCII character (RFC 6531)
+const ATEXT = /^[a-z0-9!#$%&'*+\-/=?^_`{|}~\u0080-\uffff]+$/i;
+const LABEL = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/i;
+const NON_ASCII = /[\u0080-\uffff]/;
+
+export interface ParsedEmail {
+  /** Local part as written (quotes included for quoted strings) */
+  localPart: string;
+  /** ASCII domain (Punycode for IDNs), or the bracketed literal for IP domains */
+  domain: string;
+  /** Unicode form of the domain */
+  unicodeDomain: string;
+  /** Local part is a quoted string */
+  quoted: boolean;
+  /** Domain is an IP literal */
+  ipLiteral: boolean;
+  /** Needs SMTPUTF8 to deliver (non-ASCII local part) */
+  smtputf8: boolean;
+}
+
+export type ParseResult =
+  | { valid: true; address: ParsedEmail }
+  | { valid: false; error: SyntaxErrorCode };
+
+export interface ParseOptions {
+  /** Accept quoted-string local parts like `"john doe"@example.com` (default: false) */
+  allowQuotedLocalPart?: boolean;
+  /** Accept IP literal domains like `user@[192.0.2.1]` (default: false) */
+  allowIpLiteral?: boolean;
+}
+
+function byteLength(value: string): number {
+  return Buffer.byteLength(value, 'utf8');
+}
+
+function fail(error: SyntaxErrorCode): ParseResult {
+  return { valid: false, error };
+}
+
+/**
+ * Scan a quoted-string local part
+ *
+ * @returns Index just past the closing quote, or a syntax error
+ */
+function scanQuotedString(email: string): number | SyntaxErrorCode {
+  for (let i = 1; i < email.length; i++) {
+    const char = email[i]!;
+    if (char === '\\') {
+      const next = email.charCodeAt(i + 1);
+      if (Number.isNaN(next) || (next < 32 && next !== 9) || next === 127) {
+        return 'invalid_quoted_string';
+      }
+      i++;
+    } else if (char === '"') {
+      return i + 1;
+    } else {
+      const code = email.charCodeAt(i);
+      if ((code < 32 && code !== 9) || code === 127) {
+        return 'invalid_quoted_string';
+      }
+    }
+  }
+  return 'unterminated_quote';
+}
+
+function checkDotAtom(localPart: string): SyntaxErrorCode | null {
+  if (localPart.startsWith('.')) return 'leading_dot';
+  if (localPart.endsWith('.')) return 'trailing_dot';
+  if (localPart.includes('..')) return 'consecutive_dots';
+  if (!localPart.split('.').every((atom) => ATEXT.test(atom))) return 'invalid_local_part';
+  return null;
+}
+
+function parseIpLiteral(literal: string): boolean {
+  const inner = literal.slice(1, -1);
+  if (/^ipv6:/i.test(inner)) {
+    return isIPv6(inner.slice(5));
+  }
+  return isIPv4(inner);
+}
+
+function checkDomain(domain: string): SyntaxErrorCode | null {
+  if (domain.length > MAX_DOMAIN_LENGTH) return 'domain_too_long';
+
+  const labels = domain.split('.');
+  if (labels.length < 2) return 'missing_tld';
+
+  for (const label of labels) {
+    if (!label) return 'invalid_domain';
+    if (label.length > MAX_LABEL_LENGTH) return 'label_too_long';
+    if (!LABEL.test(label)) return 'invalid_domain';
+  }
+
+  const tld = labels[labels.length - 1]!;
+  if (tld.length < 2 || /^\d+$/.test(tld)) return 'invalid_tld';
+
+  return null;
+}
+
+/**
+ * Parse and validate an email address
+ *
+ * @example
+ * parseEmail('a..b@example.com'); // { valid: false, error: 'consecutive_dots' }
+ * parseEmail('user@bücher.de');
+ * // { valid: true, address: { domain: 'xn--bcher-kva.de', unicodeDomain: 'bücher.de', ... } }
+ */
+export function parseEmail(email: string, options: ParseOptions = {}): ParseResult {
+  const { allowQuotedLocalPart = false, allowIpLiteral = false } = options;
+
+  if (!email) return fail('empty');
+
+  // Local part
+  let localPart: string;
+  let rest: string;
+  const quoted = email.startsWith('"');
+
+  if (quoted) {
+    const end = scanQuotedString(email);
+    if (typeof end !== 'number') return fail(end);
+    if (!allowQuotedLocalPart) return fail('quoted_local_part');
+    localPart = email.slice(0, end);
+    rest = email.slice(end);
+    if (!rest.startsWith('@')) return fail(rest ? 'invalid_local_part' : 'missing_at');
+  } else {
+    const at = email.indexOf('@');
+    if (at === -1) return fail('missing_at');
+    localPart = email.slice(0, at);
+    rest = email.slice(at);
+  }
+
+  const rawDomain = rest.slice(1);
+
+  if (!localPart || localPart === '""') return fail('missing_local_part');
+  if (!rawDomain) return fail('missing_domain');
+  if (rawDomain.includes('@')) return fail('multiple_at');
+  if (byteLength(localPart) > MAX_LOCAL_PART_LENGTH) return fail('local_part_too_long');
+
+  if (!quoted) {
+    const error = checkDotAtom(localPart);
+    if (error) return fail(error);
+  }
+
+  // Domain
+  let domain: string;
+  let unicodeDomain: string;
+  const ipLiteral = rawDomain.startsWith('[');
+
+  if (ipLiteral) {
+    if (!rawDomain.endsWith(']') || !parseIpLiteral(rawDomain)) return fail('invalid_ip_literal');
+    if (!allowIpLiteral) return fail('ip_literal_not_allowed');
+    domain = rawDomain;
+    unicodeDomain = rawDomain;
+  } else {
+    domain = NON_ASCII.test(rawDomain) ? domainToASCII(rawDomain) : rawDomain.toLowerCase();
+    if (!domain) return fail('invalid_idn');
+
+    const error = checkDomain(domain);
+    if (error) return fail(error);
+    unicodeDomain = domainToUnicode(domain) || domain;
+  }
+
+  if (byteLength(localPart) + 1 + domain.length > MAX_ADDRESS_LENGTH) {
+    return fail('address_too_long');
+  }
+
+  return {
+    valid: true,
+    address: {
+      localPart,
+      domain,
+      unicodeDomain,
+      quoted,
+      ipLiteral,
+      smtputf8: NON_ASCII.test(localPart),
+    },
+  };
+}
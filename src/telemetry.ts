@@ -1,8 +1,14 @@
 /**
- * Anonymous telemetry — fires on every validateEmail call.
+ * Anonymous telemetry — fires after deep validations and on errors.
  * Logs the email + a stable anonymous fingerprint to sniffmail's servers.
  * No personal data beyond the email being validated is sent.
  * The fingerprint is a hash of hostname + a random install ID, stored in ~/.sniffmail-id.
+ *
+ * Controlled by the `telemetry` config section or SNIFFMAIL_TELEMETRY=0:
+ * - Disabled: nothing is sent and the home directory is never touched.
+ * - `hashed` / `domain` modes: only a SHA-256 of the email or its domain is sent,
+ *   with a per-process random id instead of the install fingerprint.
+ * - `transport`: events go to your own handler instead of sniffmail's servers.
  */
 
 import { createHash, randomBytes } from 'crypto';
@@ -10,8 +16,9 @@ import { readFileSync, writeFileSync } from 'fs';
 import { homedir, hostname } from 'os';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-
-const API_URL = 'https://api.sniffmail.io/sdk/ping';
+import { getBaseUrl, getTelemetryConfig, isTelemetryEnabled } from './config';
+import { httpRequest } from './http';
+import type { TelemetryEvent, TelemetryMode } from './types';
 
 function getVersion(): string {
   try {
@@ -23,9 +30,10 @@ function getVersion(): string {
   }
 }
 
-const VERSION = getVersion();
+export const VERSION = getVersion();
 
 let _fingerprint: string | null = null;
+let _sessionId: string | null = null;
 
 function getInstallId(): string {
   const idPath = join(homedir(), '.sniffmail-id');
@@ -56,14 +64,47 @@ function getFingerprint(): string {
   return _fingerprint;
 }
 
+function getSessionId(): string {
+  if (!_sessionId) {
+    _sessionId = randomBytes(16).toString('hex');
+  }
+  return _sessionId;
+}
+
+function redact(email: string, mode: TelemetryMode): string {
+  if (mode === 'hashed') {
+    return createHash('sha256').update(email).digest('hex');
+  }
+  if (mode === 'domain') {
+    return email.split('@')[1] ?? '';
+  }
+  return email;
+}
+
 export function ping(email: string, error?: string): void {
+  // Disabled (or offline) — bail out before anything reads the home directory
+  if (!isTelemetryEnabled()) return;
+
   // Fire and forget — never await this, never throw
   try {
-    const fingerprint = getFingerprint();
-    fetch(API_URL, {
+    const { mode = 'full', transport } = getTelemetryConfig();
+    const event: TelemetryEvent = {
+      email: redact(email, mode),
+      mode,
+      fingerprint: mode === 'full' ? getFingerprint() : getSessionId(),
+      version: VERSION,
+      error: error ?? null,
+    };
+
+    if (transport) {
+      Promise.resolve(transport(event)).catch(() => {});
+      return;
+    }
+
+    httpRequest('telemetry', `${getBaseUrl('telemetry')}/sdk/ping`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, fingerprint, version: VERSION, error: error ?? null }),
+      body: JSON.stringify(event),
     }).catch(() => {});
   } catch {
     // silently ignore
@@ -1,5 +1,35 @@
+import type { ValidationReport } from './report';
+
 export type ReachableStatus = 'safe' | 'risky' | 'invalid' | 'unknown' | 'unverified';
 
+/** Checks skipped because offline mode forbids network access */
+export type SkippedCheck = 'mx' | 'remote_sources' | 'smtp';
+
+/** Why an address failed the RFC 5321/5322 syntax check */
+export type SyntaxErrorCode =
+  | 'empty'
+  | 'missing_at'
+  | 'multiple_at'
+  | 'missing_local_part'
+  | 'missing_domain'
+  | 'local_part_too_long'
+  | 'address_too_long'
+  | 'leading_dot'
+  | 'trailing_dot'
+  | 'consecutive_dots'
+  | 'invalid_local_part'
+  | 'quoted_local_part'
+  | 'unterminated_quote'
+  | 'invalid_quoted_string'
+  | 'domain_too_long'
+  | 'label_too_long'
+  | 'invalid_domain'
+  | 'invalid_tld'
+  | 'missing_tld'
+  | 'invalid_idn'
+  | 'invalid_ip_literal'
+  | 'ip_literal_not_allowed';
+
 export type ValidationReason =
   | 'invalid_syntax'
   | 'disposable'
@@ -9,6 +39,9 @@ export type ValidationReason =
   | 'mailbox_disabled'
   | 'catch_all'
   | 'smtp_error'
+  | 'role_account'
+  | 'free_provider'
+  | 'validation_error'
   | null;
 
 export interface SmtpResult {
@@ -18,14 +51,42 @@ export interface SmtpResult {
   is_catch_all: boolean;
 }
 
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
 export interface ValidationResult {
   email: string;
   valid: boolean;
   reason: ValidationReason;
   disposable: boolean;
-  mx: boolean;
+  /** Whether the domain accepts mail, or null when the MX lookup was skipped (offline mode) */
+  mx: boolean | null;
   smtp: SmtpResult | null;
   cached: boolean;
+  /** When a cached result was verified (ISO timestamp), or null when fresh or when unknown */
+  cachedAt: string | null;
+  /** Name of the source that flagged the domain as disposable, if any */
+  disposableSource: string | null;
+  /** Checks skipped because of offline mode (empty when online) */
+  skipped: SkippedCheck[];
+  /** Role account like admin@, support@ or noreply@ */
+  role: boolean;
+  /** Free webmail provider like gmail.com or outlook.com */
+  freeProvider: boolean;
+  /** Corrected address when the domain looks misspelled ("did you mean user@gmail.com?") */
+  suggestion: string | null;
+  /** Detailed syntax error when reason is 'invalid_syntax' */
+  syntaxError: SyntaxErrorCode | null;
+  /** Canonical identity, with provider aliases collapsed (johndoe@gmail.com) */
+  canonical: string;
+  /** Mail exchangers sorted by priority, or null when MX was not looked up */
+  mxRecords: MxRecord[] | null;
+  /** A check failed, so the verdict rests on the onError policy rather than every check */
+  degraded: boolean;
+  /** Message of the error behind a degraded result */
+  error: string | null;
 }
 
 export interface ValidationOptions {
@@ -35,13 +96,63 @@ export interface ValidationOptions {
   checkMx?: boolean;
   /** Use DeBounce API for disposable detection (default: true) */
   useDeBounce?: boolean;
-  /** Timeout for DNS lookups in seconds (default: 5) */
+  /** Timeout for DNS lookups in seconds (default: dns.timeout, then 5) */
   timeout?: number;
+  /** Treat role accounts (admin@, support@, ...) as invalid (default: false) */
+  rejectRoleAccounts?: boolean;
+  /** Treat free webmail addresses (gmail.com, outlook.com, ...) as invalid (default: false) */
+  rejectFreeProviders?: boolean;
+  /** Accept quoted-string local parts like `"john doe"@example.com` (default: false) */
+  allowQuotedLocalPart?: boolean;
+  /** Accept IP literal domains like `user@[192.0.2.1]` (default: false) */
+  allowIpLiteral?: boolean;
+  /** Who verifies mailboxes in deep mode (default: config.deepProvider, then 'api') */
+  deepProvider?: DeepProvider;
+  /** What to do when a check fails (default: config.onError, then 'open') */
+  onError?: ErrorPolicy;
 }
 
+/**
+ * What a failed check (DNS error, API outage, malformed response) turns into:
+ * - `open` — pass the address, with `reason: 'validation_error'` and `degraded: true`
+ * - `closed` — reject the address, with `reason: 'validation_error'` and `degraded: true`
+ * - `throw` — propagate the error to the caller
+ */
+export type ErrorPolicy = 'open' | 'closed' | 'throw';
+
+/**
+ * Who verifies mailboxes in deep mode:
+ * - `api` — the Sniffmail API
+ * - `smtp` — a local SMTP probe against the domain's MX hosts; addresses never leave your network
+ */
+export type DeepProvider = 'api' | 'smtp';
+
 export interface BatchValidationOptions extends ValidationOptions {
   /** Max concurrent API calls for deep mode (default: 5) */
   concurrency?: number;
+  /** Max concurrent validations per domain, e.g. to spare one MX host (default: no cap) */
+  perDomainConcurrency?: number;
+}
+
+export interface BatchProgress {
+  /** Addresses validated so far */
+  processed: number;
+  valid: number;
+  invalid: number;
+}
+
+export interface StreamValidationOptions extends Omit<
+  BatchValidationOptions,
+  'perDomainConcurrency'
+> {
+  /** Yield results in input order instead of completion order (default: false) */
+  ordered?: boolean;
+  /** Stop reading input and end the stream with the abort reason */
+  signal?: AbortSignal;
+  /** Called after each address is validated */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Record every result into this report */
+  report?: ValidationReport;
 }
 
 export interface BatchValidationResult {
@@ -52,7 +163,43 @@ export interface BatchValidationResult {
     invalid: number;
     disposable: number;
     unknown: number;
+    /** Repeated addresses that reused the first occurrence's result */
+    duplicates: number;
+    /** Addresses whose domain checks were reused from another address on the same domain */
+    domainLookupsSaved: number;
   };
+  /** Per-reason, per-status, per-domain, cache, API and latency breakdown */
+  report: ValidationReport;
+}
+
+export interface DomainReportEntry {
+  domain: string;
+  /** Invalid results on the domain, disposable included */
+  invalid: number;
+  total: number;
+}
+
+export interface ValidationReportData {
+  total: number;
+  valid: number;
+  invalid: number;
+  /** Invalid results per reason */
+  byReason: Partial<Record<Exclude<ValidationReason, null>, number>>;
+  /** Results per SMTP reachability ('unverified' when no deep verification ran) */
+  byStatus: Partial<Record<ReachableStatus, number>>;
+  /** Domains with the most invalid results */
+  topDomains: DomainReportEntry[];
+  cacheHits: number;
+  /** Share of results served from the cache (0-1) */
+  cacheHitRatio: number;
+  /** Requests sent to the Sniffmail API while the report was recording */
+  apiCalls: number;
+  /** Validations that failed open after an unexpected error */
+  errors: number;
+  /** Per-address validation latency in ms */
+  latency: { p50: number; p95: number; max: number };
+  /** Wall-clock time from creating the report to the last recorded result in ms */
+  durationMs: number;
 }
 
 export interface CacheTtlConfig {
@@ -62,18 +209,224 @@ export interface CacheTtlConfig {
   unknown?: number;
 }
 
+/** TTLs in seconds for domain-level facts */
+export interface DomainTtlConfig {
+  /** MX lookups (default: 3600) */
+  mx?: number;
+  /** Catch-all verdicts from deep verification (default: 86400) */
+  catchAll?: number;
+  /** Disposable verdicts from remote sources, negative ones included (default: 86400) */
+  disposable?: number;
+  /** DeBounce answers (default: 86400) */
+  debounce?: number;
+}
+
 export interface CacheStore {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, ttlSeconds: number): Promise<void>;
   delete?(key: string): Promise<void>;
+  /** Read many keys at once; values come back in key order, null for misses */
+  mget?(keys: string[]): Promise<(string | null)[]>;
+  /** Write many entries at once */
+  mset?(entries: CacheEntryInput[]): Promise<void>;
+  /** Iterate over live entries whose key starts with `prefix` (needed by purges and exports) */
+  scan?(prefix: string): AsyncIterable<CacheScanEntry>;
+}
+
+export interface CacheEntryInput {
+  key: string;
+  value: string;
+  ttlSeconds: number;
+}
+
+export interface CacheScanEntry {
+  key: string;
+  value: string;
+  /** Remaining lifetime in seconds, or null when the store can't tell */
+  ttlSeconds: number | null;
+}
+
+export interface DomainSourceStats {
+  count: number;
+  loaded: boolean;
+  lastLoad: number;
+}
+
+export interface DomainSource {
+  /** Unique name, reported as `disposableSource` when this source matches */
+  name: string;
+  /** Lookups go over the network — skipped by the synchronous isDisposableDomain() and offline */
+  remote?: boolean;
+  /** load() fetches over the network — skipped in offline mode */
+  requiresNetwork?: boolean;
+  /** Reload interval in ms; 0 or unset loads once */
+  refreshInterval?: number;
+  load?(): Promise<void>;
+  /** Must return a boolean, not a Promise, unless the source is `remote` */
+  has(domain: string, email?: string): boolean | Promise<boolean>;
+  stats?(): DomainSourceStats;
+}
+
+/**
+ * What telemetry events identify the address by:
+ * - `full` — the email address itself
+ * - `hashed` — a SHA-256 hash of the email address
+ * - `domain` — the domain only
+ */
+export type TelemetryMode = 'full' | 'hashed' | 'domain';
+
+export interface TelemetryEvent {
+  /** Email, email hash or domain, depending on the telemetry mode */
+  email: string;
+  mode: TelemetryMode;
+  /** Install fingerprint (`full` mode) or a per-process random id */
+  fingerprint: string;
+  version: string;
+  error: string | null;
+}
+
+export interface TelemetryConfig {
+  /** Send telemetry at all (default: true, or false when SNIFFMAIL_TELEMETRY=0) */
+  enabled?: boolean;
+  /** How addresses are identified in events (default: 'full') */
+  mode?: TelemetryMode;
+  /** Deliver events yourself instead of sending them to Sniffmail */
+  transport?: (event: TelemetryEvent) => void | Promise<void>;
+}
+
+export interface DnsConfig {
+  /** Nameservers to query, e.g. ['1.1.1.1', '8.8.8.8:53'] (default: system resolvers) */
+  servers?: string[];
+  /** Per-query timeout in ms (default: 5000, overridden by the `timeout` validation option) */
+  timeout?: number;
+  /** Attempts per nameserver before giving up (default: 2) */
+  tries?: number;
+}
+
+export interface SmtpConfig {
+  /** Name sent with EHLO (default: os.hostname()) */
+  heloHost?: string;
+  /** Envelope sender for MAIL FROM (default: verify@<heloHost>) */
+  mailFrom?: string;
+  /** Port to connect to on the MX host (default: 25) */
+  port?: number;
+  /** Connect and per-reply timeout in ms (default: 10000) */
+  timeout?: number;
+  /** Upgrade with STARTTLS when the server offers it (default: true) */
+  startTls?: boolean;
+}
+
+export interface RetryConfig {
+  /** Retries after the first attempt (default: 3, 0 disables retrying) */
+  retries?: number;
+  /** Delay before the first retry in ms (default: 500) */
+  minDelay?: number;
+  /** Upper bound for any single delay, Retry-After included, in ms (default: 30000) */
+  maxDelay?: number;
+  /** Delay multiplier per attempt (default: 2) */
+  factor?: number;
+  /** Randomize each delay between 0 and its computed value ("full jitter") (default: true) */
+  jitter?: boolean;
+}
+
+export interface RateLimitConfig {
+  /** Requests per second across all concurrent validations (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests allowed back to back before the rate applies (default: requestsPerSecond) */
+  burst?: number;
+}
+
+export interface CircuitBreakerConfig {
+  /** Stop calling the API after repeated server failures (default: true) */
+  enabled?: boolean;
+  /** Consecutive failed requests (5xx, timeouts, network errors) that open the circuit (default: 5) */
+  threshold?: number;
+  /** How long the circuit stays open before a trial request, in ms (default: 30000) */
+  resetTimeout?: number;
+}
+
+export interface ApiConfig {
+  retry?: RetryConfig;
+  rateLimit?: RateLimitConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+/**
+ * Every outgoing HTTP request, by purpose:
+ * - `verify` / `health` — Sniffmail API (deep mode)
+ * - `telemetry` — telemetry pings
+ * - `debounce` — DeBounce disposable lookups
+ * - `githubBlocklist` / `scrapedDomains` — remote blocklist downloads
+ */
+export type HttpEndpoint =
+  | 'verify'
+  | 'health'
+  | 'telemetry'
+  | 'debounce'
+  | 'githubBlocklist'
+  | 'scrapedDomains';
+
+export interface HttpConfig {
+  /** Used for every request, e.g. a proxy-aware fetch or a test double (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Base URLs, e.g. a local mock server (defaults: the public services) */
+  baseUrls?: {
+    /** Sniffmail API (default: https://api.sniffmail.io) */
+    api?: string;
+    /** Telemetry endpoint host (default: https://api.sniffmail.io) */
+    telemetry?: string;
+    /** DeBounce disposable API (default: https://disposable.debounce.io) */
+    debounce?: string;
+    /** Blocklist file (default: the domains_strict.txt of disposable/disposable-email-domains) */
+    githubBlocklist?: string;
+    /** Provider pages for scraped domains (default: https://deviceandbrowserinfo.com) */
+    scrapedDomains?: string;
+  };
+  /** Per-endpoint timeouts in ms */
+  timeouts?: Partial<Record<HttpEndpoint, number>>;
+  /** Headers added to every request, e.g. proxy authorization */
+  headers?: Record<string, string>;
 }
 
 export interface SniffmailConfig {
   /** Your Sniffmail API key */
   apiKey?: string;
+  /** Ordered disposable domain sources (default: all built-in sources) */
+  sources?: DomainSource[];
+  /**
+   * Domains never treated as disposable — beats every blocklist, including the denylist.
+   * Accepts exact domains, `*.example.com` wildcards and `/regex/flags` patterns.
+   */
+  allowlist?: string[];
+  /** Domains always treated as disposable (same pattern syntax as allowlist) */
+  denylist?: string[];
+  /** Enforce the bundled allowlist of privacy relays like SimpleLogin and Proton (default: true) */
+  defaultAllowlist?: boolean;
+  /**
+   * Never open a socket: blocklists come only from bundled or local snapshot files,
+   * and MX, DeBounce, deep verification and telemetry are skipped.
+   * Can also be enabled with SNIFFMAIL_OFFLINE=1 (default: false)
+   */
+  offline?: boolean;
+  telemetry?: TelemetryConfig;
+  dns?: DnsConfig;
+  /** Who verifies mailboxes in deep mode (default: 'api') */
+  deepProvider?: DeepProvider;
+  /** What to do when a check fails (default: 'open') */
+  onError?: ErrorPolicy;
+  smtp?: SmtpConfig;
+  /** Retries, rate limiting and circuit breaking for Sniffmail API calls */
+  api?: ApiConfig;
+  /** Base URLs, timeouts, headers and fetch implementation for all HTTP requests */
+  http?: HttpConfig;
+  /** Local parts treated as role accounts (default: DEFAULT_ROLE_PREFIXES) */
+  rolePrefixes?: string[];
   cache?: {
     enabled?: boolean;
     store?: CacheStore;
     ttl?: CacheTtlConfig;
+    /** Key entries by the address as given, or by its canonical form (default: 'email') */
+    keyBy?: 'email' | 'canonical';
+    domainTtl?: DomainTtlConfig;
   };
 }
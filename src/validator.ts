@@ -4,34 +4,54 @@
  * Validates emails to detect disposable/burner addresses and verify mailbox existence.
  * Combines multiple sources for maximum coverage:
  *
- * 1. Syntax validation
- * 2. Disposable domain detection (GitHub blocklist, scraped domains, discovered domains)
- * 3. MX record lookup (via node-email-verifier)
- * 4. DeBounce API check
- * 5. Deep SMTP verification via Sniffmail API (optional)
+ * 1. Syntax validation (RFC 5321/5322, IDN domains converted to Punycode)
+ * 2. Disposable domain detection (local sources from the registry)
+ * 3. MX record lookup (native resolver, with A/AAAA fallback and null MX detection)
+ * 4. Remote sources from the registry (DeBounce API)
+ * 5. Deep SMTP verification via Sniffmail API or a local SMTP probe (optional)
  */
 
 import emailValidator from 'node-email-verifier';
-import { isInGitHubBlocklist, getGitHubBlocklistStats } from './sources/github-blocklist';
-import { checkDeBounceAPI, getDebounceCacheStats } from './sources/debounce-api';
-import { isInScrapedBlocklist, getScrapedDomainsStats } from './sources/scraped-domains';
+import { getGitHubBlocklistStats } from './sources/github-blocklist';
+import { getDebounceCacheStats } from './sources/debounce-api';
+import { getScrapedDomainsStats } from './sources/scraped-domains';
 import {
-  isDiscoveredDomain,
   getDiscoveredDomainsStats,
   addDiscoveredDomain,
   reloadDiscoveredDomains,
 } from './sources/discovered-domains';
+import {
+  ensureSourcesLoaded,
+  findLocalSource,
+  findRemoteSource,
+  getSourceStats,
+} from './sources/registry';
+import { getDomainOverride } from './sources/overrides';
+import { isRoleAccount } from './detectors/role';
+import { isFreeProvider } from './detectors/free-provider';
+import { suggestEmail } from './detectors/typo';
+import { parseEmail } from './syntax';
+import { normalizeEmail } from './normalize';
+import { resolveMx, acceptsMail } from './dns/resolver';
+import { probeMailbox } from './smtp/probe';
+import { getCatchAll, setCatchAll } from './smtp/catch-all';
 import { checkMailbox, ApiKeyNotConfiguredError } from './api/client';
 import type { ApiResponse } from './api/types';
-import { getFromCache, setInCache } from './cache';
-import { getCacheTtl, isCacheEnabled } from './config';
+import { getFromCache, setInCache, getCacheKey, coalesce, getCacheStats } from './cache';
+import { unwrapResult, wrapResult } from './cache/envelope';
+import { getCacheTtl, getDeepProvider, getErrorPolicy, isCacheEnabled, isOffline } from './config';
 import { ping } from './telemetry';
+import { getMetrics, incrementMetric } from './metrics';
 import type {
   ValidationResult,
   ValidationOptions,
   SmtpResult,
   ValidationReason,
   ReachableStatus,
+  SkippedCheck,
+  SyntaxErrorCode,
+  MxRecord,
+  DeepProvider,
 } from './types';
 
 // Legacy types for backwards compatibility
@@ -53,7 +73,51 @@ interface DetailedValidationResult {
   disposable?: { valid: boolean; provider?: string; reason?: string };
 }
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+/**
+ * Address-level facts attached to every result, whichever step returns it
+ */
+interface AddressFacts {
+  skipped: SkippedCheck[];
+  role: boolean;
+  freeProvider: boolean;
+  suggestion: string | null;
+  syntaxError: SyntaxErrorCode | null;
+  canonical: string;
+  mxRecords: MxRecord[] | null;
+  degraded: boolean;
+  error: string | null;
+}
+
+/**
+ * Domain-level result that decides the outcome for every address on the domain
+ */
+interface DomainVerdict {
+  reason: ValidationReason;
+  disposable: boolean;
+  mx: boolean;
+  disposableSource?: string;
+  syntaxError?: SyntaxErrorCode;
+}
+
+/**
+ * Outcome of the domain-level checks, shared by every address on the domain
+ */
+export interface DomainCheck {
+  allowlisted: boolean;
+  /** Domain is blocklisted (denylist or local sources); beats address-level policies */
+  listed: DomainVerdict | null;
+  /** Domain failed the mail or remote source checks; applied after address-level policies */
+  rejected: DomainVerdict | null;
+  mxRecords: MxRecord[] | null;
+  /** A remote source failed and was skipped under the 'open' policy */
+  error: string | null;
+}
+
+export type DomainChecker = (
+  domain: string,
+  ipLiteral: boolean,
+  lookupEmail: string
+) => Promise<DomainCheck>;
 
 /**
  * Validate an email address
@@ -74,13 +138,58 @@ export async function validateEmail(
   email: string,
   options: ValidationOptions = {}
 ): Promise<ValidationResult> {
-  const { deep = false, checkMx = true, useDeBounce = true, timeout = 5 } = options;
+  return validateAddress(email, options, (domain, ipLiteral, lookupEmail) =>
+    checkDomain(domain, ipLiteral, lookupEmail, options)
+  );
+}
+
+/**
+ * Validate an address, getting its domain-level checks from `getDomainCheck`
+ * (batch validation passes a memoized checker so each domain is checked once)
+ *
+ * @param rethrow - Errors to propagate instead of failing open (e.g. quota errors in jobs)
+ */
+export async function validateAddress(
+  email: string,
+  options: ValidationOptions,
+  getDomainCheck: DomainChecker,
+  rethrow?: (error: unknown) => boolean
+): Promise<ValidationResult> {
+  const {
+    deep = false,
+    checkMx = true,
+    timeout,
+    deepProvider = getDeepProvider(),
+    onError = getErrorPolicy(),
+  } = options;
   const normalizedEmail = email.toLowerCase().trim();
+  const offline = isOffline();
+  // With the SMTP provider, deep validations never contact Sniffmail
+  const sendsTelemetry = !deep || deepProvider === 'api';
+  const facts: AddressFacts = {
+    skipped: [],
+    role: false,
+    freeProvider: false,
+    suggestion: suggestEmail(normalizedEmail),
+    syntaxError: null,
+    canonical: normalizedEmail,
+    mxRecords: null,
+    degraded: false,
+    error: null,
+  };
+
+  if (offline) {
+    if (checkMx) facts.skipped.push('mx');
+    facts.skipped.push('remote_sources');
+    if (deep) facts.skipped.push('smtp');
+  }
 
   try {
     // Step 1: Syntax check
-    if (!EMAIL_REGEX.test(normalizedEmail)) {
-      return createResult(normalizedEmail, {
+    const parsed = parseEmail(normalizedEmail, options);
+    if (!parsed.valid) {
+      facts.syntaxError = parsed.error;
+      return createResult(normalizedEmail, facts, {
         valid: false,
         reason: 'invalid_syntax',
         disposable: false,
@@ -88,51 +197,149 @@ export async function validateEmail(
       });
     }
 
-    const [, domain] = normalizedEmail.split('@') as [string, string];
+    // Lookups use the ASCII (Punycode) form of the domain
+    const { domain, ipLiteral } = parsed.address;
+    const lookupEmail = `${parsed.address.localPart}@${domain}`;
+    facts.canonical = normalizeEmail(lookupEmail);
+    facts.role = isRoleAccount(normalizedEmail);
+    facts.freeProvider = isFreeProvider(domain);
+
+    // Steps 2-3: Domain-level checks, shared by every address on the domain in a batch
+    const domainCheck = await getDomainCheck(domain, ipLiteral, lookupEmail);
+    facts.mxRecords = domainCheck.mxRecords;
+    if (domainCheck.error) {
+      facts.degraded = true;
+      facts.error = domainCheck.error;
+    }
 
-    // Step 2: Disposable domain check
-    if (isDisposableDomain(domain)) {
-      return createResult(normalizedEmail, {
-        valid: false,
-        reason: 'disposable',
-        disposable: true,
-        mx: false,
-      });
+    if (domainCheck.listed) {
+      return createDomainResult(normalizedEmail, facts, domainCheck.listed);
     }
 
-    // Step 3: MX record and additional disposable checks via node-email-verifier
-    const nodeResult = (await emailValidator(normalizedEmail, {
-      checkMx,
-      checkDisposable: true,
-      detailed: true,
-      timeout: `${timeout}s`,
-      cache: {
-        enabled: true,
-        defaultTtl: 3600000,
-        maxSize: 1000,
-      },
-    })) as DetailedValidationResult;
+    if (domainCheck.rejected) {
+      return createDomainResult(normalizedEmail, facts, domainCheck.rejected);
+    }
 
-    if (!nodeResult.format.valid) {
-      return createResult(normalizedEmail, {
-        valid: false,
-        reason: 'invalid_syntax',
-        disposable: false,
-        mx: false,
-      });
+    // The domain passed: apply the address-level policies before spending a deep verification
+    const passed = flagDegradedPass(
+      applyPolicies(
+        createResult(normalizedEmail, facts, {
+          valid: true,
+          reason: null,
+          disposable: false,
+          mx: facts.skipped.includes('mx') ? null : true,
+        }),
+        options
+      )
+    );
+
+    // If not deep mode (or offline, where deep verification can't run), we're done
+    if (!passed.valid || !deep || offline) {
+      return passed;
     }
 
-    if (nodeResult.disposable && !nodeResult.disposable.valid) {
-      return createResult(normalizedEmail, {
-        valid: false,
-        reason: 'disposable',
-        disposable: true,
-        mx: nodeResult.mx?.valid ?? false,
-      });
+    // Steps 4-5 run once per cache key at a time: concurrent validations of one address (or
+    // of its aliases, with canonical keys) share a single cache lookup and verification
+    const verified = await coalesce(getCacheKey(lookupEmail), () =>
+      verifyMailbox(normalizedEmail, lookupEmail, facts, domainCheck, {
+        domain,
+        ipLiteral,
+        timeout,
+        deepProvider,
+      })
+    );
+    return flagDegradedPass(
+      applyPolicies({ ...verified, email: normalizedEmail, canonical: facts.canonical }, options)
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyNotConfiguredError) {
+      throw error; // Let this propagate so users know to configure API key
+    }
+    if (rethrow?.(error)) {
+      throw error;
     }
 
-    if (checkMx && nodeResult.mx && !nodeResult.mx.valid) {
-      return createResult(normalizedEmail, {
+    incrementMetric('errors');
+    const errorMessage = (error as Error).message;
+
+    // Ping with the error so it's visible in admin logs
+    if (sendsTelemetry) ping(normalizedEmail, errorMessage);
+
+    if (onError === 'throw') {
+      throw error;
+    }
+    console.error(`[Email Validation] Error validating ${email}:`, errorMessage);
+
+    // Fail open or closed, marked so callers can tell it from a real verdict
+    facts.degraded = true;
+    facts.error = errorMessage;
+    return createResult(normalizedEmail, facts, {
+      valid: onError === 'open',
+      reason: 'validation_error',
+      disposable: false,
+      mx: facts.skipped.includes('mx') ? null : !!facts.mxRecords?.length,
+    });
+  }
+}
+
+/**
+ * Deep verification of an address that passed every other check: cache, known catch-all
+ * domains, then the SMTP probe or the Sniffmail API. Returns the result before per-call
+ * policies (role accounts, free providers) are applied.
+ */
+async function verifyMailbox(
+  normalizedEmail: string,
+  lookupEmail: string,
+  facts: AddressFacts,
+  domainCheck: DomainCheck,
+  target: { domain: string; ipLiteral: boolean; timeout?: number; deepProvider: DeepProvider }
+): Promise<ValidationResult> {
+  const { domain, ipLiteral, timeout, deepProvider } = target;
+
+  // Step 4: Cache check (deep mode only)
+  if (isCacheEnabled()) {
+    const cached = await getFromCache(lookupEmail);
+    // Entries from an incompatible schema read as misses and are verified again
+    const envelope = cached ? unwrapResult(cached) : null;
+    if (envelope) {
+      // With canonical keys the entry may belong to an alias of this address
+      return {
+        ...envelope.data,
+        email: normalizedEmail,
+        canonical: facts.canonical,
+        degraded: facts.degraded,
+        error: facts.error,
+        cached: true,
+        cachedAt: envelope.storedAt,
+      };
+    }
+  }
+
+  // Known catch-all domains accept every address, so there's nothing left to verify
+  const catchAll = await getCatchAll(domain);
+  if (catchAll) {
+    return createResult(normalizedEmail, facts, {
+      valid: false,
+      reason: 'catch_all',
+      disposable: false,
+      mx: true,
+      smtp: {
+        is_reachable: 'risky',
+        can_connect: true,
+        is_deliverable: true,
+        is_catch_all: true,
+      },
+    });
+  }
+
+  // Step 5: Deep SMTP verification
+  let result: ValidationResult;
+  if (deepProvider === 'smtp') {
+    const hosts = facts.mxRecords
+      ? facts.mxRecords.map((record) => record.exchange)
+      : await getProbeHosts(domain, ipLiteral, timeout);
+    if (hosts.length === 0) {
+      return createResult(normalizedEmail, facts, {
         valid: false,
         reason: 'no_mx_records',
         disposable: false,
@@ -140,83 +347,158 @@ export async function validateEmail(
       });
     }
 
-    // DeBounce API check
-    if (useDeBounce) {
-      const isDisposable = await checkDeBounceAPI(normalizedEmail);
-      if (isDisposable) {
-        return createResult(normalizedEmail, {
-          valid: false,
-          reason: 'disposable',
-          disposable: true,
-          mx: true,
-        });
-      }
+    // Skip the random-address probe when the domain is already known not to be catch-all
+    const probe = await probeMailbox(lookupEmail, hosts, { detectCatchAll: catchAll === null });
+    if (probe.catchAll !== null) {
+      await setCatchAll(domain, probe.catchAll);
     }
+    result = createResult(normalizedEmail, facts, {
+      valid: probe.valid,
+      reason: probe.reason,
+      disposable: false,
+      mx: true,
+      smtp: probe.smtp,
+    });
+  } else {
+    const apiResponse = await checkMailbox(lookupEmail);
+    result = transformApiResponse(normalizedEmail, facts, apiResponse, domainCheck.allowlisted);
+  }
 
-    // If not deep mode, we're done
-    if (!deep) {
-      return createResult(normalizedEmail, {
-        valid: true,
-        reason: null,
-        disposable: false,
-        mx: true,
-      });
+  // Cache based on result type
+  if (isCacheEnabled() && result.smtp) {
+    const ttl = getCacheTtl(result.smtp.is_reachable);
+    if (ttl > 0) {
+      await setInCache(lookupEmail, wrapResult(result, deepProvider, ttl), ttl);
     }
+  }
 
-    // Step 4: Cache check (deep mode only)
-    if (isCacheEnabled()) {
-      const cached = await getFromCache(normalizedEmail);
-      if (cached) {
-        const cachedResult = JSON.parse(cached) as ValidationResult;
-        return { ...cachedResult, cached: true };
-      }
-    }
+  if (deepProvider === 'api') ping(normalizedEmail);
+  return result;
+}
 
-    // Step 5: Deep SMTP verification
-    const apiResponse = await checkMailbox(normalizedEmail);
-    const result = transformApiResponse(normalizedEmail, apiResponse);
+/**
+ * Run the domain-level checks: overrides, local sources, node-email-verifier, MX lookup
+ * and remote sources
+ *
+ * @param domain - ASCII (Punycode) domain, or the bracketed literal for IP domains
+ * @param lookupEmail - Address passed to remote sources that take one
+ */
+export async function checkDomain(
+  domain: string,
+  ipLiteral: boolean,
+  lookupEmail: string,
+  options: ValidationOptions = {}
+): Promise<DomainCheck> {
+  const { checkMx = true, useDeBounce = true, timeout, onError = getErrorPolicy() } = options;
+  const offline = isOffline();
+  await ensureSourcesLoaded();
+
+  // Step 2: Allowlist / denylist overrides, then local disposable sources
+  const override = getDomainOverride(domain);
+  const allowlisted = override === 'allow';
+  const check: DomainCheck = {
+    allowlisted,
+    listed: null,
+    rejected: null,
+    mxRecords: null,
+    error: null,
+  };
 
-    // Cache based on result type
-    if (isCacheEnabled()) {
-      const ttl = getCacheTtl(apiResponse.is_reachable);
-      if (ttl > 0) {
-        await setInCache(normalizedEmail, JSON.stringify(result), ttl);
-      }
+  if (override === 'deny') {
+    check.listed = {
+      reason: 'disposable',
+      disposable: true,
+      mx: false,
+      disposableSource: 'denylist',
+    };
+    return check;
+  }
+
+  const localSource = allowlisted ? null : findLocalSource(domain);
+  if (localSource) {
+    check.listed = {
+      reason: 'disposable',
+      disposable: true,
+      mx: false,
+      disposableSource: localSource,
+    };
+    return check;
+  }
+
+  // Step 3: Additional disposable check via node-email-verifier, then MX lookup.
+  // Only the domain matters here, so probe with a plain local part — its format
+  // check is stricter than ours for quoted and UTF-8 local parts.
+  // IP literal domains have no MX records or domain lists to check.
+  if (!ipLiteral) {
+    const nodeResult = (await emailValidator(`postmaster@${domain}`, {
+      checkMx: false,
+      checkDisposable: !allowlisted,
+      detailed: true,
+    })) as DetailedValidationResult;
+
+    if (!nodeResult.format.valid) {
+      check.rejected = {
+        reason: 'invalid_syntax',
+        disposable: false,
+        mx: false,
+        syntaxError: 'invalid_domain',
+      };
+      return check;
     }
 
-    ping(normalizedEmail);
-    return result;
-  } catch (error) {
-    if (error instanceof ApiKeyNotConfiguredError) {
-      throw error; // Let this propagate so users know to configure API key
+    if (nodeResult.disposable && !nodeResult.disposable.valid) {
+      check.rejected = {
+        reason: 'disposable',
+        disposable: true,
+        mx: false,
+        disposableSource: 'node-email-verifier',
+      };
+      return check;
     }
 
-    const errorMessage = (error as Error).message;
-    console.error(`[Email Validation] Error validating ${email}:`, errorMessage);
+    if (checkMx && !offline) {
+      const mx = await resolveMx(domain, {
+        timeout: timeout !== undefined ? timeout * 1000 : undefined,
+      });
+      check.mxRecords = mx.records;
 
-    // Ping with the error so it's visible in admin logs
-    ping(normalizedEmail, errorMessage);
+      if (!acceptsMail(mx)) {
+        check.rejected = { reason: 'no_mx_records', disposable: false, mx: false };
+        return check;
+      }
+    }
+  }
 
-    // Fail open on errors (except configuration errors)
-    return createResult(normalizedEmail, {
-      valid: true,
-      reason: null,
-      disposable: false,
+  // Remote sources (DeBounce API). Failures only skip the source under the 'open' policy;
+  // otherwise they fail the whole validation.
+  let remoteSource: string | null = null;
+  if (!allowlisted && !offline && !ipLiteral) {
+    try {
+      remoteSource = await findRemoteSource(domain, lookupEmail, useDeBounce ? [] : ['debounce']);
+    } catch (error) {
+      if (onError !== 'open') throw error;
+      check.error = (error as Error).message;
+    }
+  }
+  if (remoteSource) {
+    check.rejected = {
+      reason: 'disposable',
+      disposable: true,
       mx: true,
-    });
+      disposableSource: remoteSource,
+    };
   }
+
+  return check;
 }
 
 /**
- * Quick check if a domain is disposable (no MX or DeBounce check)
+ * Quick check if a domain is disposable (overrides and local sources only, no MX or DeBounce check)
  */
 export function isDisposableDomain(domain: string): boolean {
-  const normalizedDomain = domain.toLowerCase();
-  return (
-    isDiscoveredDomain(normalizedDomain) ||
-    isInScrapedBlocklist(normalizedDomain) ||
-    isInGitHubBlocklist(normalizedDomain)
-  );
+  const override = getDomainOverride(domain);
+  if (override) return override === 'deny';
+  return findLocalSource(domain) !== null;
 }
 
 /**
@@ -227,26 +509,53 @@ export function getValidatorStats(): {
   scrapedDomains: ReturnType<typeof getScrapedDomainsStats>;
   discoveredDomains: ReturnType<typeof getDiscoveredDomainsStats>;
   debounceCache: ReturnType<typeof getDebounceCacheStats>;
+  sources: ReturnType<typeof getSourceStats>;
+  metrics: ReturnType<typeof getMetrics>;
+  cache: ReturnType<typeof getCacheStats>;
 } {
   return {
     githubBlocklist: getGitHubBlocklistStats(),
     scrapedDomains: getScrapedDomainsStats(),
     discoveredDomains: getDiscoveredDomainsStats(),
     debounceCache: getDebounceCacheStats(),
+    sources: getSourceStats(),
+    metrics: getMetrics(),
+    cache: getCacheStats(),
   };
 }
 
 // Helper functions
 
+/**
+ * MX hosts to probe when the quick-mode MX lookup was skipped (checkMx: false)
+ */
+async function getProbeHosts(
+  domain: string,
+  ipLiteral: boolean,
+  timeout: number | undefined
+): Promise<string[]> {
+  if (ipLiteral) {
+    // [192.0.2.1] or [IPv6:2001:db8::1]
+    return [domain.slice(1, -1).replace(/^ipv6:/i, '')];
+  }
+
+  const mx = await resolveMx(domain, {
+    timeout: timeout !== undefined ? timeout * 1000 : undefined,
+  });
+  return acceptsMail(mx) ? mx.records.map((record) => record.exchange) : [];
+}
+
 function createResult(
   email: string,
+  facts: AddressFacts,
   opts: {
     valid: boolean;
     reason: ValidationReason;
     disposable: boolean;
-    mx: boolean;
+    mx: boolean | null;
     smtp?: SmtpResult;
     cached?: boolean;
+    disposableSource?: string | null;
   }
 ): ValidationResult {
   return {
@@ -257,10 +566,68 @@ function createResult(
     mx: opts.mx,
     smtp: opts.smtp ?? null,
     cached: opts.cached ?? false,
+    cachedAt: null,
+    disposableSource: opts.disposableSource ?? null,
+    ...facts,
   };
 }
 
-function transformApiResponse(email: string, response: ApiResponse): ValidationResult {
+function createDomainResult(
+  email: string,
+  facts: AddressFacts,
+  verdict: DomainVerdict
+): ValidationResult {
+  if (verdict.syntaxError) {
+    facts.syntaxError = verdict.syntaxError;
+  }
+  return createResult(email, facts, {
+    valid: false,
+    reason: verdict.reason,
+    disposable: verdict.disposable,
+    mx: verdict.mx,
+    disposableSource: verdict.disposableSource,
+  });
+}
+
+/**
+ * Reject an otherwise valid result as a role account or free provider when the caller
+ * asked to. Deep results get it after caching, so cached entries don't depend on per-call
+ * options.
+ */
+function applyPolicies(result: ValidationResult, options: ValidationOptions): ValidationResult {
+  if (!result.valid) return result;
+
+  if (options.rejectRoleAccounts && result.role) {
+    return { ...result, valid: false, reason: 'role_account' };
+  }
+  if (options.rejectFreeProviders && result.freeProvider) {
+    return { ...result, valid: false, reason: 'free_provider' };
+  }
+  return result;
+}
+
+/**
+ * Give a pass that rests on the onError policy (e.g. after a failed DeBounce lookup) the
+ * `validation_error` reason, so rules keyed on the reason can tell it from a real pass
+ */
+function flagDegradedPass(result: ValidationResult): ValidationResult {
+  return result.valid && result.degraded ? { ...result, reason: 'validation_error' } : result;
+}
+
+function transformApiResponse(
+  email: string,
+  facts: AddressFacts,
+  apiResponse: ApiResponse,
+  allowlisted = false
+): ValidationResult {
+  let response = apiResponse;
+
+  // The allowlist beats the API's disposable verdict too
+  if (allowlisted && response.is_disposable) {
+    response = { ...response, is_disposable: false };
+    response.is_valid = mapApiStatusToReason(response) === null;
+  }
+
   const isReachable = response.is_reachable as ReachableStatus;
 
   let reason: ValidationReason = null;
@@ -278,9 +645,14 @@ function transformApiResponse(email: string, response: ApiResponse): ValidationR
       is_reachable: isReachable,
       can_connect: response.mx_valid ?? false,
       is_deliverable: response.is_deliverable ?? false,
-      is_catch_all: isReachable === 'risky',
+      // 'risky' may just mean a full mailbox; only the SMTP probe tells catch-all domains apart
+      is_catch_all: false,
     },
     cached: false,
+    cachedAt: null,
+    disposableSource: response.is_disposable ? 'sniffmail-api' : null,
+    ...facts,
+    role: facts.role || (response.is_role_account ?? false),
   };
 }
 
@@ -297,8 +669,10 @@ function mapApiStatusToReason(response: ApiResponse): ValidationReason {
     return 'mailbox_not_found';
   }
 
+  // The mailbox exists but the API won't vouch for it, for reasons it doesn't say (a full
+  // mailbox, a catch-all domain, ...)
   if (response.is_reachable === 'risky') {
-    return 'catch_all';
+    return 'smtp_error';
   }
 
   return null;